@@ -0,0 +1,94 @@
+/** Signal that indicates whether an operation should be cancelled; compatible with the standard `AbortSignal` interface, i.e. an `AbortSignal` from an `AbortController` can be used as well as the signal from a `CancellationSource` */
+export interface CancellationSignal {
+    /** True if cancellation has been requested */
+    readonly aborted: boolean;
+    /** Add a listener that is called when cancellation is requested */
+    addEventListener(type: "abort", listener: () => void): void;
+    /** Remove a listener that was added using `addEventListener` */
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
+/** Options that can be passed along with request and feed options to cancel an operation, including all pending requests and retries */
+export interface CancellationOptions {
+    /** Signal that cancels the operation; operations that are cancelled are rejected with a `CancellationError` */
+    signal?: CancellationSignal;
+}
+
+/** Error that is thrown (i.e. used to reject promises) when an operation has been cancelled */
+export class CancellationError extends Error {
+    constructor(message = "Operation cancelled") {
+        super(message);
+        Object.setPrototypeOf(this, CancellationError.prototype);
+        this.name = "CancellationError";
+    }
+
+    /** Always true, can be used to distinguish cancellation errors */
+    public readonly cancelled = true;
+}
+
+/** Object that can be used to cancel operations (similar to the standard `AbortController`); pass the `signal` property using the `signal` option of an operation, and call `cancel` to cancel the operation */
+export class CancellationSource {
+    /** The signal that can be passed to operations using the `signal` option */
+    public readonly signal: CancellationSignal = new SourceSignal();
+
+    /** True if `cancel` has been called */
+    public get isCancelled() { return this.signal.aborted }
+
+    /** Request cancellation of all operations that use the signal of this instance */
+    public cancel() {
+        (<SourceSignal>this.signal)._abort();
+    }
+
+    /** Request cancellation after given timeout (ms); returns this instance */
+    public cancelAfter(ms: number) {
+        setTimeout(() => this.cancel(), ms);
+        return this;
+    }
+}
+
+/** @internal Signal implementation used by `CancellationSource` */
+class SourceSignal implements CancellationSignal {
+    public aborted = false;
+
+    public addEventListener(type: "abort", listener: () => void) {
+        if (type === "abort" && this._listeners.indexOf(listener) < 0)
+            this._listeners.push(listener);
+    }
+
+    public removeEventListener(type: "abort", listener: () => void) {
+        this._listeners = this._listeners.filter(l => l !== listener);
+    }
+
+    /** @internal Set the aborted flag and call all listeners (once) */
+    public _abort() {
+        if (this.aborted) return;
+        this.aborted = true;
+        var listeners = this._listeners;
+        this._listeners = [];
+        listeners.forEach(l => l());
+    }
+
+    /** @internal */
+    private _listeners: Array<() => void> = [];
+}
+
+/** @internal Throw a `CancellationError` if given signal indicates that cancellation has been requested */
+export function throwIfCancelled(signal?: CancellationSignal) {
+    if (signal && signal.aborted) throw new CancellationError();
+}
+
+/** @internal Return a promise that resolves after given timeout, or is rejected with a `CancellationError` as soon as given signal is aborted */
+export function cancellableSleepAsync(ms: number, signal?: CancellationSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal && signal.aborted) return reject(new CancellationError());
+        let onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancellationError());
+        };
+        var timer = setTimeout(() => {
+            signal && signal.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal && signal.addEventListener("abort", onAbort);
+    });
+}
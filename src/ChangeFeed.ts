@@ -0,0 +1,240 @@
+import * as _DocumentDB from "./_DocumentDB";
+import { Collection, AllOptions, StoreMode } from "./Collection";
+import { DocumentPage } from "./DocumentStream";
+import { NotFoundError } from "./Errors";
+import { CancellationSignal, cancellableSleepAsync } from "./Cancellation";
+import { curryPromise } from "./Util";
+
+/** Position in the change feed to start reading from, if no continuation token has been specified or saved */
+export type ChangeFeedStartFrom = "beginning" | "now";
+
+/** Options for reading the change feed of a collection (see `Collection.readChangeFeed`); the `continuation` feed option can be used to resume reading from a continuation token returned by `ChangeFeedStream` */
+export interface ChangeFeedOptions {
+    /** Position to start reading from, if there is no continuation token (defaults to `beginning`) */
+    startFrom?: ChangeFeedStartFrom;
+    /** Store used to load the continuation token before reading the first page (unless specified using the `continuation` option), and to save the continuation token before reading subsequent pages */
+    checkpointStore?: ChangeFeedCheckpointStore;
+    /** Name of the checkpoint in the checkpoint store (defaults to the collection ID) */
+    checkpointName?: string;
+    /** Interval (ms) at which the change feed is polled for new changes once all changes have been read; if not specified, iteration ends as soon as all changes have been read */
+    pollInterval?: number;
+}
+
+/** Store for change feed continuation tokens (checkpoints), see `ChangeFeedOptions.checkpointStore` */
+export interface ChangeFeedCheckpointStore {
+    /** Returns a promise for the continuation token saved under given name, if any */
+    loadAsync(name: string): Promise<string | undefined>;
+    /** Save given continuation token under given name */
+    saveAsync(name: string, continuation: string): Promise<void>;
+}
+
+/** Lease document, as stored by `LeaseCheckpointStore` */
+export interface ChangeFeedLease {
+    /** Document ID, i.e. the prefix and checkpoint name */
+    id: string;
+    /** Saved continuation token */
+    continuation: string;
+    /** Time (ms since epoch) at which the continuation token was saved */
+    timestamp: number;
+}
+
+/** Checkpoint store that persists continuation tokens as lease documents in a (separate) lease collection, e.g. a collection with partition key `/id`; lease documents are updated using the etag of the version that was last loaded or saved by this instance, i.e. saving a checkpoint fails with a `PreconditionFailedError` if the lease has been updated by another process in the meantime */
+export class LeaseCheckpointStore implements ChangeFeedCheckpointStore {
+    /** Create a new checkpoint store for given lease collection; the ID of each lease document consists of given prefix and the checkpoint name */
+    constructor(public readonly collection: Collection, public readonly prefix = "") {
+        // nothing here
+    }
+
+    /** Returns a promise for the continuation token in the lease document with given name, or undefined if the lease document does not exist */
+    public async loadAsync(name: string) {
+        try {
+            var lease = await this.collection.findDocumentAsync<ChangeFeedLease>(
+                this.prefix + name);
+        }
+        catch (err) {
+            if (err instanceof NotFoundError) return undefined;
+            throw err;
+        }
+        this._etags[name] = lease._etag;
+        return lease.continuation;
+    }
+
+    /** Save given continuation token in the lease document with given name */
+    public async saveAsync(name: string, continuation: string) {
+        var lease: ChangeFeedLease & { _etag?: string } = {
+            id: this.prefix + name,
+            continuation,
+            timestamp: Date.now()
+        };
+        var etag = this._etags[name];
+        if (etag) lease._etag = etag;
+        var result = await this.collection.storeDocumentAsync(lease,
+            etag ? StoreMode.UpdateOnlyIfNoChange : StoreMode.Upsert);
+        this._etags[name] = result._etag;
+    }
+
+    /** @internal Last known etags of all lease documents, by name */
+    private _etags: { [name: string]: string } = {};
+}
+
+/** Represents the change feed of a collection as a stream of documents that have been created or updated, in order of modification within each partition key range (only the latest version of each document is included, and deleted documents are not included); the stream can be used as an async iterable (which polls for new changes if the `pollInterval` option is set), and can be resumed from its continuation token, or from a checkpoint store */
+export class ChangeFeedStream<T> implements AsyncIterable<T> {
+    /** @internal create a change feed stream for given collection */
+    public static create<T>(_collection: Collection,
+        _options?: ChangeFeedOptions & AllOptions) {
+        return new ChangeFeedStream<T>(_collection, _options);
+    }
+
+    /** Private constructor */
+    private constructor(private _collection: Collection,
+        private _options: ChangeFeedOptions & AllOptions = {}) {
+        this.continuation = _options.continuation;
+    }
+
+    /** Timeout (ms) used for all operations; set to the Client timeout initially */
+    public timeout = this._collection.database.client.timeout;
+
+    /** Total request charge (RUs) of all requests made for this stream so far (also included in the total for the client) */
+    public requestCharge = 0;
+
+    /** Continuation token for the position after the last page that has been read, which can be passed to `Collection.readChangeFeed` using the `continuation` option to resume reading the change feed from this position; undefined if no page has been read yet (and no continuation token has been specified) */
+    public continuation?: string;
+
+    /** Get the next changed document (asynchronously), if any; promise resolves to the document, or to `null` if there are no more changes (and the `pollInterval` option has not been set), or is rejected if an error occurred */
+    public async read(signal?: CancellationSignal): Promise<T | null> {
+        var nextResult = await this.next(signal);
+        return nextResult.done ? null : nextResult.value!;
+    }
+
+    /** This property makes the entire instance usable as an async iterator */
+    [Symbol.asyncIterator] = () => this;
+
+    /** Get the next changed document (asynchronously), if any; promise resolves to a `{ value, done }` pair, or is rejected if an error occurred; if the `pollInterval` option has been set, the promise does not resolve until a changed document is found (or the operation is cancelled) */
+    public async next(signal?: CancellationSignal): Promise<IteratorResult<T>> {
+        while (!this._buffer.length) {
+            var page = await this.readPageAsync(signal);
+            this._buffer.push(...page.items);
+            if (this._buffer.length) break;
+            var pollInterval = this._options.pollInterval;
+            if (pollInterval === undefined) {
+                return { value: <any>undefined, done: true };
+            }
+            await cancellableSleepAsync(pollInterval,
+                signal || this._options.signal);
+        }
+        return { value: this._buffer.shift()!, done: false };
+    }
+
+    /** Get the next page of changed documents (asynchronously), i.e. up to `maxItemCount` documents from a single partition key range (partition key ranges are read in turn), along with the continuation token for the position after this page; the page is empty if there are no more changes in any partition key range; if a checkpoint store has been specified, the continuation token for the previous page is saved first (i.e. pages are assumed to be processed once the next page is read); page reads should not be mixed with reads of individual documents on the same stream; subsequent calls to this function will return promises for the pages after the current page (i.e. requests are queued) */
+    public async readPageAsync(signal?: CancellationSignal): Promise<DocumentPage<T>> {
+        // queue after the previous request, even if it failed
+        let read = () => this._readPageAsync(signal);
+        return await (this._nextP = this._nextP.then(read, read));
+    }
+
+    /** Save the continuation token for the position after the last page that has been read using the checkpoint store (only if changed); this is done automatically before reading the next page, but may be called explicitly once all documents from the last page have been processed */
+    public async checkpointAsync() {
+        var store = this._options.checkpointStore;
+        if (!store) throw new Error("Checkpoint store not specified");
+        var continuation = this.continuation;
+        if (continuation === undefined || continuation === this._saved) return;
+        await store.saveAsync(this._checkpointName, continuation);
+        this._saved = continuation;
+    }
+
+    /** @internal Read the next page from the first partition key range (in turn) with changes */
+    private async _readPageAsync(signal?: CancellationSignal): Promise<DocumentPage<T>> {
+        var ranges = this._ranges || (this._ranges = await this._loadAsync(signal));
+        if (this._options.checkpointStore) await this.checkpointAsync();
+        for (var i = 0; i < ranges.length; i++) {
+            var rangeId = ranges[this._rangeIndex];
+            this._rangeIndex = (this._rangeIndex + 1) % ranges.length;
+            var items = await this._readRangeAsync(rangeId, signal);
+            this.continuation = JSON.stringify(this._state);
+            if (items.length) return { items, continuation: this.continuation };
+        }
+        return { items: [], continuation: this.continuation };
+    }
+
+    /** @internal Load the initial continuation token (if needed) and the list of partition key ranges; returns a list of partition key range IDs */
+    private async _loadAsync(signal?: CancellationSignal) {
+        var store = this._options.checkpointStore;
+        var token = this.continuation;
+        if (token === undefined && store) {
+            token = await store.loadAsync(this._checkpointName);
+            this.continuation = this._saved = token;
+        }
+        if (token !== undefined) {
+            try { this._state = JSON.parse(token) } catch (all) { }
+            if (!(this._state instanceof Object))
+                throw new Error("Invalid continuation token");
+        }
+        var ranges = await this._collection.readPartitionKeyRangesAsync(
+            undefined, this._requestOptions(signal));
+        return ranges.map(r => r.id);
+    }
+
+    /** @internal Read the next page of changes from given partition key range, and update the etag for this range */
+    private async _readRangeAsync(rangeId: string, signal?: CancellationSignal) {
+        var etag = this._state[rangeId];
+        var options: _DocumentDB.FeedOptions = {
+            a_im: "Incremental feed",
+            maxItemCount: this._options.maxItemCount,
+            initialHeaders: { "x-ms-documentdb-partitionkeyrangeid": rangeId }
+        };
+        var sessionToken = this._options.sessionToken || this._collection.sessionToken;
+        if (sessionToken) options.sessionToken = sessionToken;
+        if (etag || this._options.startFrom === "now")
+            options.accessCondition = { type: "IfNoneMatch", condition: etag || "*" };
+        var client = this._collection.database.client;
+        let tryReadChanges = (callback: (err: any, result: any, headers?: any) => void) =>
+            client.log(`Reading change feed for ${this._collection.id} (${rangeId})`) &&
+            client.documentClient.readDocuments(this._collection.path, options)
+                .executeNext((err, list, headers) => {
+                    var etag = headers && headers["etag"];
+                    callback(err, { items: list || [], etag }, headers);
+                });
+        var result = await curryPromise<{ items: T[], etag?: string }>(
+            tryReadChanges, this.timeout, undefined, undefined, undefined,
+            this._collection._context("ChangeFeedStream.readPageAsync",
+                this._requestOptions(signal),
+                info => { this.requestCharge += info.requestCharge }))();
+        if (this._collection.validateOnRead) {
+            for (var item of result.items)
+                await this._collection._validateAsync(item);
+        }
+        if (result.etag) this._state[rangeId] = result.etag;
+        return result.items;
+    }
+
+    /** @internal Returns a copy of the options for this stream without the continuation token (which is not passed on to the DocumentDB client), and with given cancellation signal, if any */
+    private _requestOptions(signal?: CancellationSignal) {
+        var result: ChangeFeedOptions & AllOptions = Object.assign({}, this._options);
+        delete result.continuation;
+        if (signal) result.signal = signal;
+        return result;
+    }
+
+    /** @internal Name of the checkpoint in the checkpoint store */
+    private get _checkpointName() {
+        return this._options.checkpointName || this._collection.id;
+    }
+
+    /** @internal IDs of all partition key ranges, once loaded */
+    private _ranges?: string[];
+
+    /** @internal Index of the next partition key range to read from */
+    private _rangeIndex = 0;
+
+    /** @internal Current position (etag) for each partition key range */
+    private _state: { [rangeId: string]: string } = {};
+
+    /** @internal The continuation token that was last loaded from or saved to the checkpoint store */
+    private _saved?: string;
+
+    /** @internal Documents from the last page that have not been returned yet */
+    private _buffer: T[] = [];
+
+    /** @internal Promise for the last page read */
+    private _nextP: PromiseLike<any> = Promise.resolve(true);
+}
@@ -1,6 +1,12 @@
 import * as _DocumentDB from "./_DocumentDB";
-import { curryPromise, sleepAsync } from "./Util";
+import { curryPromise, getResponseInfo, mergeSessionTokens, RequestContext } from "./Util";
+import { RequestScheduler, PriorityOptions } from "./RequestScheduler";
+import { RetryPolicy, RetryOptions, mergeRetryPolicies } from "./RetryPolicy";
+import { CancellationOptions, CancellationError, cancellableSleepAsync } from "./Cancellation";
 import { Database } from "./Database";
+import { TimeoutError } from "./Errors";
+import { AllOptions } from "./Collection";
+import { InMemoryDocumentClient } from "./InMemoryDocumentClient";
 
 /** List of opened/opening clients for specific endpoint/key combinations */
 var _openClients = new Map<string, Client>();
@@ -8,6 +14,105 @@ var _openClients = new Map<string, Client>();
 /** Next UID */
 var _uid = 1;
 
+/** Request charge and other information taken from the response headers of a single request */
+export interface ResponseInfo {
+    /** Request charge, in request units (RUs) */
+    requestCharge: number;
+    /** Activity ID of the request, for troubleshooting */
+    activityId?: string;
+    /** Session token returned by the server, if any */
+    sessionToken?: string;
+    /** Resource quota for the account or collection, if returned by the server (e.g. `documentsSize=...;documentsCount=...`) */
+    resourceQuota?: string;
+    /** Resource usage for the account or collection, if returned by the server (same format as `resourceQuota`) */
+    resourceUsage?: string;
+    /** All response headers */
+    headers: { [name: string]: string };
+}
+
+/** Options that can be passed along with request and feed options to receive response information for every request that is made as part of an operation (including requests that are retried, and page reads for queries) */
+export interface ResponseOptions {
+    /** Function that is called with response information for every request */
+    onResponse?: (info: ResponseInfo) => void;
+}
+
+/** Properties common to all client events */
+export interface ClientEventBase {
+    /** Name of the operation, e.g. `Collection.storeDocumentAsync` */
+    operation: string;
+    /** Attempt number, starting at 1 (i.e. greater than 1 for retries) */
+    attempt: number;
+}
+
+/** Event emitted when a request is sent (including retries) */
+export interface RequestStartEvent extends ClientEventBase {
+    type: "start";
+    /** Time (ms) that the request has been waiting in the scheduler queue (for the first attempt only, otherwise zero) */
+    waitTime: number;
+}
+
+/** Event emitted when a request succeeded */
+export interface RequestSuccessEvent extends ClientEventBase {
+    type: "success";
+    /** Duration (ms) of this attempt */
+    duration: number;
+    /** Request charge (RUs) */
+    requestCharge: number;
+}
+
+/** Event emitted when a request failed or timed out, and is about to be retried */
+export interface RequestRetryEvent extends ClientEventBase {
+    type: "retry";
+    /** Duration (ms) of the attempt that failed */
+    duration: number;
+    /** Reason for the retry, i.e. `Error <code>` or `Timeout` */
+    reason: string;
+    /** Delay (ms) until the request is retried */
+    delay: number;
+    /** The error that occurred, if any */
+    error?: any;
+}
+
+/** Event emitted when a request was throttled by the server (status 429, request rate too large), and is about to be retried */
+export interface RequestThrottledEvent extends ClientEventBase {
+    type: "throttled";
+    /** Delay (ms) until the request is retried, as specified by the server if possible */
+    retryAfter: number;
+    /** The error that occurred */
+    error: any;
+}
+
+/** Event emitted when a request timed out (followed by a retry or failure event) */
+export interface RequestTimeoutEvent extends ClientEventBase {
+    type: "timeout";
+    /** Duration (ms) of this attempt */
+    duration: number;
+    /** True if the request will be retried */
+    willRetry: boolean;
+}
+
+/** Event emitted when a request failed and will not be retried */
+export interface RequestFailureEvent extends ClientEventBase {
+    type: "failure";
+    /** Duration (ms) of the last attempt */
+    duration: number;
+    /** The error that occurred */
+    error: any;
+}
+
+/** Events emitted by a client for every request (see `Client.logger`) */
+export type ClientEvent = RequestStartEvent | RequestSuccessEvent |
+    RequestRetryEvent | RequestThrottledEvent | RequestTimeoutEvent |
+    RequestFailureEvent;
+
+/** Interface for objects that can be used to observe all requests made by a client (see `Client.logger`) */
+export interface ClientLogger {
+    /** Called for every request event */
+    event?(event: ClientEvent): void;
+    /** Called with all (unstructured) log messages that are also logged to the console if `Client.enableConsoleLog` is set */
+    log?(message: string): void;
+}
+
 /** Represents a DocumentDB endpoint */
 export class Client {
     constructor(url?: string, masterKey = "<no_key>") {
@@ -15,15 +120,51 @@ export class Client {
         this.authenticationOptions = { masterKey };
     }
 
-    /** Global concurrency limit for all server requests */
+    /** Create a client that is connected to given in-memory emulator instance (or a new, empty one) instead of a live endpoint, e.g. for offline unit tests; all Database, Collection, and DocumentStream functionality works as usual; if authentication options with resource tokens are given (or set on the client before it is opened), the emulator checks all operations against the corresponding permissions */
+    public static createInMemory(emulator = new InMemoryDocumentClient(),
+        authenticationOptions?: _DocumentDB.AuthenticationOptions) {
+        var client = new Client(emulator.url);
+        if (authenticationOptions) client.authenticationOptions = authenticationOptions;
+        client.documentClientFactory = (url, auth) => emulator.authenticate(auth);
+        return client;
+    }
+
+    /** Create a client that authenticates using given resource tokens (an object with resource IDs or links as keys and tokens as values), or given permission resources (e.g. as returned by `User.grantAsync` or `User.listPermissionsAsync`), instead of a master key; such clients only have access to the resources for which permissions have been granted, and cannot list or check databases */
+    public static fromResourceTokens(url: string,
+        tokens: { [resourceId: string]: string } | _DocumentDB.PermissionResource[]) {
+        var client = new Client(url);
+        client.authenticationOptions = Array.isArray(tokens) ?
+            { permissionFeed: tokens } : { resourceTokens: tokens };
+        return client;
+    }
+
+    /** Default concurrency limit for new clients (changing this value does not affect existing clients, use `scheduler.concurrencyLimit` instead) */
     public static concurrencyLimit = 25;
 
+    /** Scheduler that limits the number of concurrent requests made through this client, and queues additional requests by priority */
+    public readonly scheduler = new RequestScheduler(Client.concurrencyLimit);
+
     /** Set to true to log all requests to the console */
     public enableConsoleLog = false;
 
+    /** Logger that receives events for all requests made through this client, as well as all log messages, if set */
+    public logger?: ClientLogger;
+
     /** Timeout (ms) used for all requests (defaults to 40s) */
     public timeout = 40000;
 
+    /** Retry policy for all requests made through this client (properties that are not specified are taken from `defaultRetryPolicy`); can be overridden for individual operations using the `retryPolicy` option, while the `maxRetries` argument of individual methods always takes precedence if specified */
+    public retryPolicy: RetryPolicy = {};
+
+    /** Total request charge (RUs) of all requests made through this client so far; may be reset to zero at any time */
+    public requestCharge = 0;
+
+    /** Function that is called with response information for every request made through this client, if set */
+    public onResponse?: (info: ResponseInfo) => void;
+
+    /** True if session tokens returned by the server should be saved for each collection (see `Collection.sessionToken`), to be passed on with subsequent requests for documents in the same collection, i.e. to read your own writes when using the `Session` consistency level; defaults to true */
+    public trackSessionTokens = true;
+
     /** The endpoint URL to connect to */
     public url: string;
 
@@ -36,6 +177,13 @@ export class Client {
     /** The consistency level (string: "Strong" | "BoundedStaleness" | "Session" | "Eventual") used for the connection to this endpoint, if specified */
     public consistencyLevel: _DocumentDB.ConsistencyLevel | undefined;
 
+    /** Factory function used to create the native DocumentClient instance when connecting, if specified; use this to plug in an alternative implementation of the DocumentClient interface (note that clients with a factory function never share their connection with other instances) */
+    public documentClientFactory: ((url: string,
+        auth: _DocumentDB.AuthenticationOptions,
+        connectionPolicy?: _DocumentDB.ConnectionPolicy,
+        consistencyLevel?: _DocumentDB.ConsistencyLevel) =>
+        _DocumentDB.DocumentClient) | undefined;
+
     /** The native DocumentClient instance; throws an error if this client is currently not connected (check using .isOpen, or await .openAsync() first) */
     public get documentClient(): _DocumentDB.DocumentClient {
         if (this._closed) throw new Error("Client already closed");
@@ -43,46 +191,81 @@ export class Client {
         return this._client;
     }
 
+    /** Returns true if this client uses resource tokens (or a permission feed) rather than a master key */
+    public get usesResourceTokens() {
+        var auth = this.authenticationOptions;
+        return !auth.masterKey && !!(auth.resourceTokens || auth.permissionFeed);
+    }
+
     /** Returns true if this client is currently connected through a native DocumentClient instance */
     public get isOpen() { return !!this._client && !this._closed }
 
-    /** Connect to the endpoint represented by this client and validate the connection, unless already connected */
-    public openAsync(maxRetries = 3): PromiseLike<any> {
+    /** Connect to the endpoint represented by this client and validate the connection, unless already connected (for clients that use resource tokens, the list of databases is not read and remains empty); if the connection attempt is cancelled using the `signal` option, the next call to this method connects again */
+    public openAsync(maxRetries?: number, options?: AllOptions): PromiseLike<any> {
         if (this._closed) throw new Error("Client already closed");
         if (this._open) return this._open;
 
         // check if another instance is already connected/-ing
-        var key = this.url + ":" +
-            JSON.stringify(this.authenticationOptions) + ":" +
-            JSON.stringify(this.connectionPolicy) + ":" +
-            this.consistencyLevel;
-        if (_openClients.has(key)) {
-            var other = _openClients.get(key)!;
-            this._client = other._client;
-            this._databaseResources = other._databaseResources;
-            return this._open = other._open!;
+        // (only if using the native DocumentClient constructor)
+        var key: string | undefined;
+        if (!this.documentClientFactory) {
+            key = this.url + ":" +
+                JSON.stringify(this.authenticationOptions) + ":" +
+                JSON.stringify(this.connectionPolicy) + ":" +
+                this.consistencyLevel;
+            if (_openClients.has(key)) {
+                var other = _openClients.get(key)!;
+                this._client = other._client;
+                this._databaseResources = other._databaseResources;
+                return this._open = other._open!;
+            }
+            _openClients.set(key, this);
         }
-        _openClients.set(key, this);
 
         // create a new DocumentClient instance
-        this._client = new _DocumentDB.DocumentClient(this.url,
-            this.authenticationOptions, this.connectionPolicy,
-            this.consistencyLevel);
+        this._client = this.documentClientFactory ?
+            this.documentClientFactory(this.url,
+                this.authenticationOptions, this.connectionPolicy,
+                this.consistencyLevel) :
+            new _DocumentDB.DocumentClient(this.url,
+                this.authenticationOptions, this.connectionPolicy,
+                this.consistencyLevel);
+
+        // validate using account info only when using resource tokens,
+        // since these do not give access to the list of databases
+        if (this.usesResourceTokens) {
+            this._resolve_databases!([]);
+            return this._open = this._resetIfCancelled(key,
+                this.getAccountInfoAsync(options));
+        }
 
         // return a promise that resolves when databases are read
-        return this._open = new Promise(resolve => {
+        return this._open = this._resetIfCancelled(key, new Promise(resolve => {
             let tryConnect = (callback: (err: any, result: any) => void) =>
                 this.log("Connecting to " + this.url) &&
                 this._client!.readDatabases({ maxItemCount: 1000 })
                     .toArray(callback);
-            resolve(curryPromise(tryConnect, this.timeout, maxRetries)()
+            resolve(curryPromise(tryConnect, this.timeout, maxRetries, undefined, undefined,
+                this._context("Client.openAsync", options))()
                 .then(dbs => { this._resolve_databases!(dbs) }));
+        }));
+    }
+
+    /** @internal Helper function that forgets given connection promise if it is rejected with a `CancellationError`, so that the connection can be opened again; returns the same promise */
+    private _resetIfCancelled(key: string | undefined, open: PromiseLike<any>) {
+        open.then(undefined, err => {
+            if (!(err instanceof CancellationError) || this._open !== open) return;
+            this._open = undefined;
+            if (key !== undefined && _openClients.get(key) === this)
+                _openClients.delete(key);
         });
+        return open;
     }
 
     /** Get a (cached) list of Database instances for all databases in this account */
-    public async listDatabasesAsync(forceReload?: boolean, maxRetries?: number) {
-        if (!this._open) await this.openAsync(maxRetries);
+    public async listDatabasesAsync(forceReload?: boolean, maxRetries?: number,
+        options?: AllOptions) {
+        if (!this._open) await this.openAsync(maxRetries, options);
         if (forceReload) {
             // create new promise for list of DB resources
             this._databaseResources =
@@ -96,7 +279,8 @@ export class Client {
                 this._client!.readDatabases({ maxItemCount: 1000 })
                     .toArray(callback);
             this._resolve_databases!(
-                await curryPromise(tryReadDBs, this.timeout, maxRetries)());
+                await curryPromise(tryReadDBs, this.timeout, maxRetries, undefined, undefined,
+                    this._context("Client.listDatabasesAsync", options))());
         }
         var databaseResources = await this._databaseResources;
         return databaseResources.map(r =>
@@ -105,31 +289,61 @@ export class Client {
 
     /** @internal Create a database (and add it to the list returned by listDatabasesAsync) */
     public async createDatabaseAsync(id: string, maxRetries?: number,
-        options?: _DocumentDB.RequestOptions) {
+        options?: AllOptions) {
         await this.openAsync();
         let tryCreateDB = (callback: (err: any, result: any) => void) =>
             this.log("Creating database: " + id) &&
             this._client!.createDatabase({ id }, options, callback);
-        await curryPromise(tryCreateDB, this.timeout, maxRetries)();
+        await curryPromise(tryCreateDB, this.timeout, maxRetries, undefined, undefined,
+            this._context("Client.createDatabaseAsync", options))();
 
         // reload all database resources until the created DB appears
         // (this is to allow for consistency less than session consistency)
         var times = Math.ceil(this.timeout / 100);
         while (times-- > 0) {
-            var dbs = await this.listDatabasesAsync(true);
+            var dbs = await this.listDatabasesAsync(true, undefined, options);
             if (dbs.some(db => db.id === id)) return;
-            await sleepAsync(100);
+            await cancellableSleepAsync(100, options && options.signal);
         }
-        throw new Error("Timeout");
+        throw new TimeoutError();
     }
 
     /** Get account information */
-    public async getAccountInfoAsync() {
+    public async getAccountInfoAsync(options?: AllOptions) {
         let tryGetInfo = (callback: (err: any, result: any) => void) =>
             this.log("Getting account info") &&
             this._client!.getDatabaseAccount(callback);
         return <_DocumentDB.DatabaseAccount>await curryPromise(
-            tryGetInfo, this.timeout)();
+            tryGetInfo, this.timeout, undefined, undefined, undefined,
+            this._context("Client.getAccountInfoAsync", options))();
+    }
+
+    /** Returns the latest session token for the collection with given path (i.e. `dbs/{database ID}/colls/{collection ID}`), if any */
+    public getSessionToken(collectionPath: string): string | undefined {
+        return this._sessionTokens[collectionPath];
+    }
+
+    /** Set (or remove, if undefined) the session token for the collection with given path (i.e. `dbs/{database ID}/colls/{collection ID}`), e.g. to use a token that was returned to another client instance or process */
+    public setSessionToken(collectionPath: string, token?: string) {
+        if (token) this._sessionTokens[collectionPath] = token;
+        else delete this._sessionTokens[collectionPath];
+    }
+
+    /** Returns the latest session tokens for all collections, by collection path (e.g. to be serialized as JSON and carried across to another process) */
+    public getSessionTokens() {
+        return Object.assign({}, this._sessionTokens);
+    }
+
+    /** Set the session tokens for all given collections, by collection path (e.g. as returned by `getSessionTokens` in another process); tokens for other collections are not affected */
+    public setSessionTokens(tokens: { [collectionPath: string]: string | undefined }) {
+        for (var path in tokens) this.setSessionToken(path, tokens[path]);
+    }
+
+    /** @internal Combine the session token for the collection with given path with given token, if tracking session tokens */
+    public _updateSessionToken(collectionPath: string, token: string) {
+        if (!this.trackSessionTokens) return;
+        this._sessionTokens[collectionPath] =
+            mergeSessionTokens(this._sessionTokens[collectionPath], token);
     }
 
     /** Remove the current connection; an attempt to open the same endpoint again in another instance will open and validate the connection again, but the current instance cannot be re-opened */
@@ -140,10 +354,36 @@ export class Client {
         });
     }
 
+    /** @internal Returns a context for requests that are part of given operation: schedules requests using the scheduler of this client (with the priority specified in given options, if any), retries requests using the retry policy of this client (merged with the policy in given options, if any), can be cancelled using the signal in given options, if any, passes events to the logger, if any, and handles response headers, i.e. adds the request charge to the total for this client, and calls given function as well as the `onResponse` functions of this client and of given options (see `ResponseOptions`), if any */
+    public _context(operation: string, options?: {},
+        f?: (info: ResponseInfo) => void): RequestContext {
+        var onResponse = options && (<ResponseOptions>options).onResponse;
+        return {
+            operation,
+            scheduler: this.scheduler,
+            priority: options && (<PriorityOptions>options).priority,
+            retryPolicy: mergeRetryPolicies(this.retryPolicy,
+                options && (<RetryOptions>options).retryPolicy),
+            signal: options && (<CancellationOptions>options).signal,
+            onResponse: headers => {
+                if (!headers) return;
+                var info = getResponseInfo(headers);
+                this.requestCharge += info.requestCharge;
+                f && f(info);
+                onResponse && onResponse(info);
+                this.onResponse && this.onResponse(info);
+            },
+            onEvent: event => {
+                if (this.logger && this.logger.event) this.logger.event(event);
+            }
+        };
+    }
+
     /** @internal Log a message; always returns true */
     public log(message: string): true {
         if (this.enableConsoleLog)
             console.log(`[${process.pid}]{${this._uid}} ${Date.now()} ${message}`);
+        if (this.logger && this.logger.log) this.logger.log(message);
         return true;
     }
 
@@ -161,6 +401,9 @@ export class Client {
     /** @internal */
     private _client?: _DocumentDB.DocumentClient;
 
+    /** @internal Latest session tokens, by collection path */
+    private _sessionTokens: { [collectionPath: string]: string } = {};
+
     /** @internal */
     private _closed?: boolean;
 
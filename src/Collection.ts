@@ -1,8 +1,16 @@
 import * as _DocumentDB from "./_DocumentDB";
+import { PassThrough } from "stream";
 import { Database } from "./Database";
-import { Client } from "./Client";
+import { Client, ResponseOptions, ResponseInfo } from "./Client";
 import { DocumentStream } from "./DocumentStream";
-import { curryPromise, sleepAsync } from "./Util";
+import { ChangeFeedStream, ChangeFeedOptions } from "./ChangeFeed";
+import { ExportOptions, ImportOptions, exportDocumentsAsync, importDocumentsAsync } from "./Ndjson";
+import { QueryBuilder } from "./QueryBuilder";
+import { PriorityOptions } from "./RequestScheduler";
+import { RetryOptions } from "./RetryPolicy";
+import { NotFoundError, ConflictError, PreconditionFailedError, ValidationError } from "./Errors";
+import { CancellationSignal, CancellationOptions, CancellationError, throwIfCancelled, cancellableSleepAsync } from "./Cancellation";
+import { curryPromise, getPartitionKeyValue, indexingPolicyMatches, readBufferAsync } from "./Util";
 
 /** Global query ID, used to tag reads in the log */
 var _queryUID = 0;
@@ -10,11 +18,38 @@ var _queryUID = 0;
 /** Modes that can be used for storing resources in a collection */
 export enum StoreMode { Upsert, CreateOnly, UpdateOnly, UpdateOnlyIfNoChange };
 
+/** Result of a stored procedure execution, including script log output (see `Collection.executeStoredProcedureWithLogAsync`) */
+export interface StoredProcedureResult<ResultT> {
+    /** The response body set by the stored procedure */
+    result: ResultT;
+    /** Script log output (i.e. all `console.log` output), if any */
+    scriptLog: string;
+}
+
+/** Result of a single operation within a bulk operation (see `Collection.storeDocumentsAsync` and `Collection.deleteDocumentsAsync`) */
+export interface BulkOperationResult<T> {
+    /** Index of the input item (document or ID) */
+    index: number;
+    /** The ID of the document, if known */
+    id?: string;
+    /** True if the operation succeeded */
+    success: boolean;
+    /** The stored document resource (only for successful store operations) */
+    resource?: T & _DocumentDB.DocumentResource;
+    /** The error that occurred, if the operation failed */
+    error?: any;
+}
+
+/** Function that validates a document of given type (see `Collection.validator`); the document is valid if the function returns (or resolves to) true or undefined, or an empty array; it is invalid if the function returns false, or a string or an array of strings with validation error messages, or throws an error; if the function returns false and has an `errors` property, e.g. a validation function compiled from a JSON Schema by a library such as Ajv, validation error messages are taken from this property */
+export type DocumentValidator<T> = (doc: T) => boolean | string | string[] | void |
+    PromiseLike<boolean | string | string[] | void>;
+
 /** Combined option objects for operations that may invoke multiple network calls */
-export type AllOptions = _DocumentDB.FeedOptions & _DocumentDB.RequestOptions;
+export type AllOptions = _DocumentDB.FeedOptions & _DocumentDB.RequestOptions &
+    ResponseOptions & PriorityOptions & RetryOptions & CancellationOptions;
 
-/** Represents a DocumentDB collection */
-export class Collection {
+/** Represents a DocumentDB collection; the type parameter represents the type of documents in the collection, which is used as the default result type for methods such as `findDocumentAsync` and `queryDocuments`, and as a constraint for documents that are stored using `storeDocumentAsync` (set `validator` to validate documents at runtime as well) */
+export class Collection<DocumentT extends {} = any> {
     /** Refer to a collection by name, from given database */
     constructor(id: string, database: Database);
     /** @internal Refer to a collection by name, from given database and with given link */
@@ -43,33 +78,66 @@ export class Collection {
     /** The database used for all operations */
     public readonly database: Database;
 
+    /** Partition key definition for this collection, if any; set this before calling `openOrCreateAsync` to create a partitioned collection (e.g. `{ paths: ["/tenantId"], kind: "Hash" }`), otherwise this property is set from the collection resource when the collection is opened */
+    public partitionKey?: _DocumentDB.PartitionKeyDefinition;
+
+    /** Function that is used to validate documents before they are stored using `storeDocumentAsync` or `storeDocumentsAsync`, and after they are read if `validateOnRead` is true (see `DocumentValidator`); documents that are not valid are rejected with a `ValidationError` */
+    public validator?: DocumentValidator<DocumentT>;
+
+    /** True if documents should also be validated (using `validator`) after they are read using `findDocumentAsync`, `queryDocuments` without a query (i.e. reading all documents), or `readChangeFeed`; defaults to false */
+    public validateOnRead = false;
+
+    /** True if this collection is known to be partitioned (i.e. `partitionKey` has been set, explicitly or after opening the collection) */
+    public get isPartitioned() {
+        return !!this.partitionKey && !!this.partitionKey.paths &&
+            this.partitionKey.paths.length > 0;
+    }
+
+    /** Latest session token for this collection, which is passed on with all subsequent requests for documents in this collection unless the `sessionToken` option is specified; updated automatically from server responses (see `Client.trackSessionTokens`), and can be set to a token from another client instance or process, e.g. to read your own writes across HTTP requests */
+    public get sessionToken() {
+        return this.database.client.getSessionToken(this._sessionPath);
+    }
+    public set sessionToken(value: string | undefined) {
+        this.database.client.setSessionToken(this._sessionPath, value);
+    }
+
     /** The partial resource URI for this database, i.e. `"/dbs/.../colls/..."` */
     public get path() {
         return this._self ||
             "dbs/" + this.database.id + "/colls/" + encodeURIComponent(this.id);
     }
 
-    /** Open and validate the connection, check that this collection exists */
+    /** Open and validate the connection, check that this collection exists (for clients that use resource tokens without access to the collection resource itself, e.g. with permissions on a single document, the collection is assumed to exist) */
     public async openAsync(maxRetries?: number, options?: AllOptions) {
         if (this._self) return this;
-        await this.database.openAsync(maxRetries);
+        await this.database.openAsync(maxRetries, options);
         let tryGetCollection = (callback: (err: any, result: any) => void) =>
             this.database.client.log("Reading collection " + this.path) &&
             this.database.client.documentClient.readCollection(
                 this.path, options, callback);
-        var resource = await curryPromise<_DocumentDB.CollectionResource>(
-            tryGetCollection,
-            this.database.client.timeout, maxRetries)();
+        try {
+            var resource = await curryPromise<_DocumentDB.CollectionResource>(
+                tryGetCollection,
+                this.database.client.timeout, maxRetries, undefined, undefined,
+                this._context("Collection.openAsync", options))();
+        }
+        catch (err) {
+            if (err.code != 403 /* forbidden */ ||
+                !this.database.client.usesResourceTokens) throw err;
+            this._self = this.path;
+            return this;
+        }
         this._self = resource["_self"];
+        if (!this.partitionKey) this.partitionKey = resource.partitionKey;
         return this;
     }
 
-    /** Open and validate the connection, find or create collection resource (does not create the database) */
+    /** Open and validate the connection, find or create collection resource (does not create the database); a partitioned collection is created if the `partitionKey` property has been set */
     public async openOrCreateAsync(createThroughput?: number,
         indexingPolicy?: _DocumentDB.IndexingPolicy,
         defaultTtl?: number, maxRetries?: number, options?: AllOptions) {
         if (this._self) return this;
-        await this.database.openAsync(maxRetries);
+        await this.database.openAsync(maxRetries, options);
         var resource: _DocumentDB.CollectionResource;
         try {
             let tryGetCollection = (callback: (err: any, result: any) => void) =>
@@ -78,7 +146,8 @@ export class Collection {
                     this.path, options, callback);
             resource = await curryPromise<_DocumentDB.CollectionResource>(
                 tryGetCollection,
-                this.database.client.timeout, maxRetries)();
+                this.database.client.timeout, maxRetries, undefined, undefined,
+                this._context("Collection.openOrCreateAsync", options))();
         }
         catch (err) {
             if (err.code == 404 /* not found */) {
@@ -86,6 +155,7 @@ export class Collection {
                 var data: any = { id: this.id };
                 if (indexingPolicy) data.indexingPolicy = indexingPolicy;
                 if (defaultTtl !== undefined) data.defaultTtl = defaultTtl;
+                if (this.partitionKey) data.partitionKey = this.partitionKey;
                 try {
                     let tryCreateCollection = (callback: (err: any, result: any) => void) =>
                         this.database.client.log("Creating collection " + this.id) &&
@@ -95,13 +165,14 @@ export class Collection {
                             callback);
                     resource = await curryPromise<_DocumentDB.CollectionResource>(
                         tryCreateCollection,
-                        this.database.client.timeout)();
+                        this.database.client.timeout, undefined, undefined, undefined,
+                        this._context("Collection.openOrCreateAsync", options))();
                 }
                 catch (err) {
                     if (err.code == 409 /* conflict */) {
                         this.database.client.log("Collection conflict, retrying...");
-                        await sleepAsync(1000);
-                        return await this.openAsync();
+                        await cancellableSleepAsync(1000, options && options.signal);
+                        return await this.openAsync(maxRetries, options);
                     }
                     throw err;
                 }
@@ -109,17 +180,18 @@ export class Collection {
             else throw err;
         }
         this._self = resource["_self"];
+        if (!this.partitionKey) this.partitionKey = resource.partitionKey;
         return this;
     }
 
     /** Open and validate the connection, find or create collection resource (also creates the database if needed) */
     public async openOrCreateDatabaseAsync(createThroughput?: number,
         indexingPolicy?: _DocumentDB.IndexingPolicy,
-        defaultTtl?: number, maxRetries?: number) {
+        defaultTtl?: number, maxRetries?: number, options?: AllOptions) {
         if (this._self) return this;
-        await this.database.openOrCreateAsync(maxRetries);
+        await this.database.openOrCreateAsync(maxRetries, options);
         await this.openOrCreateAsync(createThroughput, indexingPolicy,
-            defaultTtl, maxRetries);
+            defaultTtl, maxRetries, options);
         return this;
     }
 
@@ -133,16 +205,17 @@ export class Collection {
                 parameters: [{ name: "@selflink", value: this._self }]
             }, options).toArray(callback);
         var offers: any[] = await curryPromise<any>(
-            tryGetOffer, this.database.client.timeout, maxRetries)();
-        if (!offers.length) throw new Error("Offer not found");
+            tryGetOffer, this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.getOfferInfoAsync", options))();
+        if (!offers.length) throw new NotFoundError("Offer not found");
         this._offer = offers[0];
         return <_DocumentDB.OfferResource>JSON.parse(JSON.stringify(offers[0]));
     }
 
     /** Set provisioned throughput */
-    public async setOfferInfoAsync(throughput: number) {
+    public async setOfferInfoAsync(throughput: number, options?: AllOptions) {
         await this.openAsync();
-        if (!this._offer) await this.getOfferInfoAsync();
+        if (!this._offer) await this.getOfferInfoAsync(undefined, options);
         var offer = this._offer!;
         if (!offer.content || !offer.content.offerThroughput)
             throw new Error("Unknown offer type");
@@ -152,7 +225,75 @@ export class Collection {
             this.database.client.documentClient.replaceOffer(
                 offer._self, offer, callback);
         this._offer = await curryPromise<any>(trySetOffer,
-            this.database.client.timeout)();
+            this.database.client.timeout, undefined, undefined, undefined,
+            this._context("Collection.setOfferInfoAsync", options))();
+    }
+
+    /** Get a list of partition key ranges (i.e. physical partitions) for this collection */
+    public async readPartitionKeyRangesAsync(maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        let tryReadRanges = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Reading partition key ranges for " + this.id) &&
+            this.database.client.documentClient.readPartitionKeyRanges(
+                this._self!, options).toArray(callback);
+        return await curryPromise<_DocumentDB.PartitionKeyRangeResource[]>(
+            tryReadRanges, this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.readPartitionKeyRangesAsync", options))();
+    }
+
+    /** Get the current indexing policy of this collection */
+    public async getIndexingPolicyAsync(maxRetries?: number, options?: AllOptions) {
+        var result = await this._readResourceAsync(
+            "Collection.getIndexingPolicyAsync", maxRetries, options);
+        return result.resource.indexingPolicy!;
+    }
+
+    /** Replace the indexing policy of this collection, as well as the default TTL if specified (in seconds, or -1 for no expiry by default; use `null` to remove the default TTL); the index is transformed by the service in the background (see `waitForIndexTransformationAsync`); returns the updated collection resource */
+    public async setIndexingPolicyAsync(indexingPolicy: _DocumentDB.IndexingPolicy,
+        defaultTtl?: number | null, maxRetries?: number, options?: AllOptions) {
+        var current = await this._readResourceAsync(
+            "Collection.setIndexingPolicyAsync", maxRetries, options);
+        var data: _DocumentDB.CollectionResource =
+            Object.assign({}, current.resource, { indexingPolicy });
+        if (defaultTtl === null) delete data.defaultTtl;
+        else if (defaultTtl !== undefined) data.defaultTtl = defaultTtl;
+        let tryReplace = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Replacing collection: " + this.id) &&
+            this.database.client.documentClient.replaceCollection(
+                this._self!, data, options, callback);
+        return await curryPromise<_DocumentDB.CollectionResource>(tryReplace,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.setIndexingPolicyAsync", options))();
+    }
+
+    /** Returns true if the current indexing policy of this collection differs from given (desired) policy; only the properties specified in the desired policy are compared (property names and values other than paths are compared case-insensitively, and index precision is only compared if specified) */
+    public async hasIndexingPolicyDriftAsync(indexingPolicy: _DocumentDB.IndexingPolicy,
+        maxRetries?: number, options?: AllOptions) {
+        var current = await this.getIndexingPolicyAsync(maxRetries, options);
+        return !indexingPolicyMatches(current, indexingPolicy);
+    }
+
+    /** Get the progress (percentage) of the index transformation after the indexing policy has been replaced, as reported by the service; returns 100 if the index is up to date */
+    public async getIndexTransformationProgressAsync(maxRetries?: number,
+        options?: AllOptions) {
+        var result = await this._readResourceAsync(
+            "Collection.getIndexTransformationProgressAsync", maxRetries, options);
+        var progress = parseFloat(result.headers[
+            "x-ms-documentdb-collection-index-transformation-progress"]);
+        return progress >= 0 ? progress : 100;
+    }
+
+    /** Wait until the index transformation after replacing the indexing policy has completed, checking progress every `pollInterval` ms (defaults to 1s) and calling given function with the progress percentage, if any; can be cancelled using the `signal` option */
+    public async waitForIndexTransformationAsync(pollInterval = 1000,
+        onProgress?: (progress: number) => void,
+        maxRetries?: number, options?: AllOptions) {
+        while (true) {
+            var progress = await this.getIndexTransformationProgressAsync(
+                maxRetries, options);
+            onProgress && onProgress(progress);
+            if (progress >= 100) return;
+            await cancellableSleepAsync(pollInterval, options && options.signal);
+        }
     }
 
     /** Delete this collection */
@@ -163,17 +304,26 @@ export class Collection {
             this.database.client.documentClient.deleteCollection(this._self!,
                 options, callback);
         await curryPromise(tryDelete, this.database.client.timeout,
-            maxRetries, 500, true)();
+            maxRetries, 500, true,
+            this._context("Collection.deleteAsync", options))();
         delete this._self;
     }
 
-    /** Create or update the document with given data (must include an `.id` or `._self` property if store mode is `UpdateOnly`, and must also include an `_etag` property if store mode is `UpdateOnlyIfNoChange`); returns the stored data as a plain object, including meta properties such as `._etag` and `._self` */
-    public async storeDocumentAsync<T extends Partial<_DocumentDB.DocumentResource>>(
+    /** Returns the partition key value for given document (i.e. the value of the property referenced by the partition key path), or undefined if this collection is not partitioned or the property does not exist; note that the partition key definition is only known after the collection has been opened */
+    public getPartitionKeyValue(doc: {}) {
+        return this.partitionKey ?
+            getPartitionKeyValue(this.partitionKey, doc) : undefined;
+    }
+
+    /** Create or update the document with given data (must include an `.id` or `._self` property if store mode is `UpdateOnly`, and must also include an `_etag` property if store mode is `UpdateOnlyIfNoChange`); returns the stored data as a plain object, including meta properties such as `._etag` and `._self`; for partitioned collections, the partition key value is taken from the document unless specified in `options`; triggers can be run along with this operation by specifying their IDs using the `preTriggerInclude` and `postTriggerInclude` options */
+    public async storeDocumentAsync<T extends Partial<_DocumentDB.DocumentResource> & DocumentT>(
         data: T & object,
         mode?: StoreMode, maxRetries?: number, options?: AllOptions):
         Promise<T & _DocumentDB.DocumentResource> {
         await this.openAsync();
         if (!(<any>data instanceof Object)) throw new TypeError();
+        await this._validateAsync(data);
+        options = this._requestOptions(options, data);
         var tryStore: (callback: (err: any, result: any) => void) => any;
         switch (mode) {
             case StoreMode.UpdateOnlyIfNoChange:
@@ -210,32 +360,92 @@ export class Collection {
                         data, options, callback);
         }
         return await curryPromise<T & _DocumentDB.DocumentResource>(
-            tryStore, this.database.client.timeout, maxRetries)();
+            tryStore, this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.storeDocumentAsync", options))();
+    }
+
+    /** Read the document with given ID (or an object with a `_self` or `id` property, see `findDocumentAsync`), apply given mutator function, and replace the document with the result only if it has not been changed in the meantime (i.e. using its etag); the mutator may modify the document in place and/or return (or resolve to) a new document, and is called again with a fresh copy of the document if the update fails because the document was changed, up to `maxConflictRetries` times; if the document does not exist and `createIfMissing` is true, the mutator is called with an object with only the document ID, and the result is stored as a new document; returns the updated document resource */
+    public async updateDocumentAsync<ResultT extends {} = DocumentT>(
+        doc: string | { _self: string } | { id: string },
+        mutator: (doc: ResultT & Partial<_DocumentDB.DocumentResource>) =>
+            ResultT | void | PromiseLike<ResultT | void>,
+        createIfMissing = false, maxConflictRetries = 10,
+        maxRetries?: number, options?: AllOptions):
+        Promise<ResultT & _DocumentDB.DocumentResource> {
+        await this.openAsync();
+        options = this._requestOptions(options,
+            typeof doc !== "string" ? doc : undefined);
+        var id = typeof doc === "string" ? doc : (<{ id?: string }>doc).id;
+        var ref = typeof doc === "string" ? doc : (<{ _self?: string }>doc)._self ?
+            { _self: (<{ _self: string }>doc)._self } : { id: id! };
+        for (var attempt = 0; ; attempt++) {
+            throwIfCancelled(options.signal);
+            var current: any;
+            try {
+                current = await this.findDocumentAsync<any>(<any>ref,
+                    maxRetries, options);
+            }
+            catch (err) {
+                if (!createIfMissing || id === undefined ||
+                    !(err instanceof NotFoundError)) throw err;
+                current = undefined;
+            }
+            var data: any = current || { id };
+            var result: any = await mutator(data);
+            if (result === undefined) result = data;
+            if (current && result !== current) {
+                // keep identity and etag of the document that was read
+                result = Object.assign({}, result, {
+                    id: current.id, _self: current._self, _etag: current._etag
+                });
+            }
+            try {
+                return await this.storeDocumentAsync(result, current ?
+                    StoreMode.UpdateOnlyIfNoChange : StoreMode.CreateOnly,
+                    maxRetries, options);
+            }
+            catch (err) {
+                // retry if the document was changed, deleted, or created
+                // in the meantime
+                if (attempt >= maxConflictRetries ||
+                    !(err instanceof PreconditionFailedError ||
+                        err instanceof NotFoundError && current ||
+                        err instanceof ConflictError && !current)) throw err;
+                this.database.client.log("Document changed, retrying update: " +
+                    (current ? current.id : id));
+            }
+        }
     }
 
-    /** Find the document with given ID */
-    public async findDocumentAsync<ResultT extends {}>(id: string,
+    /** Find the document with given ID (for partitioned collections, specify the partition key value in `options` to avoid a cross-partition query) */
+    public async findDocumentAsync<ResultT extends {} = DocumentT>(id: string,
         maxRetries?: number, options?: AllOptions):
         Promise<ResultT & _DocumentDB.DocumentResource>;
     /** Reload given document from the database using its `._self` property */
-    public async findDocumentAsync<ResultT extends {}>(doc: { _self: string },
+    public async findDocumentAsync<ResultT extends {} = DocumentT>(doc: { _self: string },
         maxRetries?: number, options?: AllOptions):
         Promise<ResultT & _DocumentDB.DocumentResource>;
     /** Find the document with exactly the same values for all properties (i.e. where _all_ own properties of the given object match exactly) */
-    public async findDocumentAsync<ResultT extends {}>(obj: Partial<ResultT> & object,
+    public async findDocumentAsync<ResultT extends {} = DocumentT>(obj: Partial<ResultT> & object,
         maxRetries?: number, options?: AllOptions):
         Promise<ResultT & _DocumentDB.DocumentResource>;
     public async findDocumentAsync(
         obj: string | { id?: string, _self?: string, [p: string]: any },
         maxRetries?: number, options?: any) {
         await this.openAsync();
+        options = this._requestOptions(options,
+            typeof obj !== "string" ? obj : undefined);
 
-        // read using readDocument if possible
+        // read using readDocument if possible (i.e. if the partition key
+        // value is known for partitioned collections)
         if (typeof obj === "string" ||
             obj && (typeof obj._self === "string" ||
                 (typeof obj.id === "string"))) {
             var docURI: string | undefined;
             try { docURI = this._getDocURI(obj) } catch (all) { }
+            if (docURI && this.isPartitioned &&
+                options.partitionKey === undefined)
+                docURI = undefined;
             if (docURI) {
                 // if got a well-formed URI, go ahead (and retry on 404, for
                 // lower consistency modes)
@@ -244,47 +454,32 @@ export class Collection {
                     this.database.client.documentClient.readDocument(
                         docURI!, options, callback);
                 let result = await curryPromise<any>(tryReadDoc,
-                    this.database.client.timeout, maxRetries, undefined, true)();
+                    this.database.client.timeout, maxRetries, undefined, true,
+                    this._context("Collection.findDocumentAsync", options))();
                 if (typeof obj !== "string" && !obj._self) {
                     // check that other properties match, too
                     for (var prop in <{}>obj) {
                         if (Object.prototype.hasOwnProperty.call(obj, prop)) {
                             if (obj[prop] !== result[prop])
-                                throw new Error("Resource not found");
+                                throw new NotFoundError();
                         }
                     }
                 }
+                if (this.validateOnRead) await this._validateAsync(result);
                 return result;
             }
             else if (typeof obj === "string") {
-                // select by ID property (e.g. when contains spaces)
+                // select by ID property (e.g. when contains spaces, or
+                // partition key is unknown)
                 obj = { id: obj };
             }
         }
+        options = this._feedOptions(options);
 
-        // use queryDocuments with given query/properties
-        var q: _DocumentDB.SqlQuery = {
-            query: "select top 1 * from c where",
-            parameters: []
-        };
-        if (obj instanceof Object) {
-            var i = 0;
-            for (var prop in <{}>obj) {
-                if (Object.prototype.hasOwnProperty.call(obj, prop)) {
-                    // add an exact match for this property
-                    if (q.parameters.length) q.query += " and";
-                    q.query += ` c[${JSON.stringify(prop)}] = @_value_${++i}`;
-                    q.parameters.push({
-                        name: "@_value_" + i,
-                        value: obj[prop]
-                    });
-                }
-            }
-        }
-        if (!q.parameters.length) q.query += " true";
-
+        // use queryDocuments with given properties, and
         // sort by time stamp to get latest document first
-        q.query += " order by c._ts desc";
+        var q = new QueryBuilder<any>().where(obj).top(1)
+            .orderBy("_ts", true).toSqlQuery();
 
         // return a single resource
         let tryQuery = (callback: (err: any, result: any) => void) =>
@@ -293,9 +488,11 @@ export class Collection {
             this.database.client.documentClient.queryDocuments(
                 this._self!, q, options).toArray(callback);
         var results = await curryPromise<any[]>(tryQuery,
-            this.database.client.timeout, maxRetries)();
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.findDocumentAsync", options))();
         if (!results || !results.length)
-            throw new Error("Resource not found");
+            throw new NotFoundError();
+        if (this.validateOnRead) await this._validateAsync(results[0]);
         return results[0];
     }
 
@@ -309,31 +506,12 @@ export class Collection {
         obj: string | { id?: string, _self?: string, [p: string]: any },
         maxRetries?: number, options?: any) {
         await this.openAsync();
+        options = this._feedOptions(options);
 
         // use queryDocuments with given ID or properties
-        var q: _DocumentDB.SqlQuery = {
-            query: "select value count(1) from c where",
-            parameters: []
-        };
-        if (typeof obj === "string") {
-            q.query += " c.id = @id";
-            q.parameters.push({ name: "@id", value: obj });
-        }
-        else if (obj instanceof Object) {
-            var i = 0;
-            for (var prop in <{}>obj) {
-                if (Object.prototype.hasOwnProperty.call(obj, prop)) {
-                    // add an exact match for this property
-                    if (q.parameters.length) q.query += " and";
-                    q.query += ` c[${JSON.stringify(prop)}] = @_value_${++i}`;
-                    q.parameters.push({
-                        name: "@_value_" + i,
-                        value: obj[prop]
-                    });
-                }
-            }
-        }
-        if (!q.parameters.length) q.query += " true";
+        var q = new QueryBuilder<any>()
+            .where(typeof obj === "string" ? { id: obj } : obj)
+            .count().toSqlQuery();
 
         // run the query and return true only if count >= 1
         let tryQuery = (callback: (err: any, result: any) => void) =>
@@ -343,64 +521,83 @@ export class Collection {
                 .queryDocuments(this._self!, q, options)
                 .toArray(callback);
         var results = await curryPromise<any[]>(tryQuery,
-            this.database.client.timeout, maxRetries)();
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.existsAsync", options))();
         return !!results && results[0] >= 1;
     }
 
-    /** Query documents in this collection using a SQL query string, or SQL query object (i.e. `{ query: "...", parameters: [{ name: "@...", value: ... }, ...] }`) */
-    public queryDocuments<ResultT>(query: _DocumentDB.SqlQuery, batchSize?: number):
+    /** Query documents in this collection using a query builder instance (see `QueryBuilder`); the result type is inferred from the query */
+    public queryDocuments<ResultT>(query: QueryBuilder<any, ResultT>, batchSize?: number):
+        DocumentStream<ResultT>;
+    /** Query documents in this collection using a query builder instance (see `QueryBuilder`) and given feed options, e.g. `maxItemCount` for the page size, and `continuation` to resume the query from a continuation token returned by `DocumentStream.readPageAsync` */
+    public queryDocuments<ResultT>(query: QueryBuilder<any, ResultT>, options?: AllOptions):
         DocumentStream<ResultT>;
     /** Query documents in this collection using a SQL query string, or SQL query object (i.e. `{ query: "...", parameters: [{ name: "@...", value: ... }, ...] }`) */
-    public queryDocuments<ResultT>(query: _DocumentDB.SqlQuery, options?: AllOptions):
+    public queryDocuments<ResultT = DocumentT>(query: _DocumentDB.SqlQuery, batchSize?: number):
+        DocumentStream<ResultT>;
+    /** Query documents in this collection using a SQL query string, or SQL query object, and given feed options, e.g. `maxItemCount` for the page size, and `continuation` to resume the query from a continuation token returned by `DocumentStream.readPageAsync` */
+    public queryDocuments<ResultT = DocumentT>(query: _DocumentDB.SqlQuery, options?: AllOptions):
         DocumentStream<ResultT>;
     /** Query all documents in this collection */
-    public queryDocuments<ResultT extends {}>(query?: undefined, batchSize?: number):
+    public queryDocuments<ResultT extends {} = DocumentT>(query?: undefined, batchSize?: number):
         DocumentStream<ResultT & _DocumentDB.DocumentResource>;
     /** Query all documents in this collection */
-    public queryDocuments<ResultT extends {}>(query?: undefined, options?: AllOptions):
+    public queryDocuments<ResultT extends {} = DocumentT>(query?: undefined, options?: AllOptions):
         DocumentStream<ResultT & _DocumentDB.DocumentResource>;
-    public queryDocuments(query?: _DocumentDB.SqlQuery, options?: number | AllOptions) {
+    public queryDocuments(query?: _DocumentDB.SqlQuery | QueryBuilder<any, any>,
+        options?: number | AllOptions) {
         if (typeof options === "number") options = { maxItemCount: options };
+        var q = query instanceof QueryBuilder ? query.toSqlQuery() : query;
         var uid = ++_queryUID;
-        if (query === undefined) {
+        if (q === undefined) {
             // use readDocuments to get all documents
             return DocumentStream.create<any>(this, uid, this.openAsync().then(() =>
                 this.database.client.log(
                     `[${uid}>>] Reading all documents from ${this.id}`) &&
                 this.database.client.documentClient.readDocuments(
-                    this._self!, <any>options)));
+                    this._self!, this._feedOptions(<any>options))), options,
+                this.validateOnRead ? doc => this._validateAsync(doc) : undefined);
         }
         else {
             // submit given query
             return DocumentStream.create<any>(this, uid, this.openAsync().then(() =>
                 this.database.client.log(
                     `[${uid}>>] Querying collection ${this.id}: ` +
-                    JSON.stringify(query)) &&
+                    JSON.stringify(q)) &&
                 this.database.client.documentClient.queryDocuments(
-                    this._self!, query, <any>options)));
+                    this._self!, q!, this._feedOptions(<any>options))), options);
         }
     }
 
-    /** Delete the document with given ID */
+    /** Read the change feed of this collection, i.e. all documents that have been created or updated since the position given by the `continuation` option, or the continuation token saved in the checkpoint store (if any), or the `startFrom` option (see `ChangeFeedOptions`); returns a stream that can be used as an async iterable */
+    public readChangeFeed<ResultT extends {} = DocumentT>(options?: ChangeFeedOptions & AllOptions) {
+        return ChangeFeedStream.create<ResultT & _DocumentDB.DocumentResource>(this, options);
+    }
+
+    /** Delete the document with given ID (for partitioned collections, specify the partition key value in `options` to avoid a cross-partition query) */
     public async deleteDocumentAsync(id: string,
         maxRetries?: number, options?: AllOptions): Promise<void>;
-    /** Delete the given document (must have a `_self` property, e.g. the result of `storeDocumentAsync` or `findDocumentAsync`, OR a valid `id` property, note that other properties are NOT matched against the document to be deleted) */
+    /** Delete the given document (must have a `_self` property, e.g. the result of `storeDocumentAsync` or `findDocumentAsync`, OR a valid `id` property, note that other properties are NOT matched against the document to be deleted, except for the partition key property for partitioned collections); triggers can be run along with this operation by specifying their IDs using the `preTriggerInclude` and `postTriggerInclude` options */
     public async deleteDocumentAsync(doc: { _self: string } | { id: string },
         maxRetries?: number, options?: AllOptions): Promise<void>;
     public async deleteDocumentAsync(v: string | { id?: string, _self?: string },
         maxRetries?: number, options?: AllOptions) {
         await this.openAsync();
+        options = this._requestOptions(options,
+            typeof v !== "string" ? v : undefined);
         var id = typeof v === "string" ? v : v.id;
         var docURI: string | undefined;
         try { docURI = this._getDocURI(v) } catch (all) { }
-        if (!docURI) {
-            // ID may contain invalid characters, find _self instead
-            var obj = await this.queryDocuments<{ _self: string }>({
-                query: "select c._self from c where c.id = @id",
-                parameters: [{ name: "@id", value: id }]
-            }, options).read();
-            if (!obj) throw new Error("Resource not found");
+        if (!docURI || this.isPartitioned && options.partitionKey === undefined) {
+            // ID may contain invalid characters, or partition key value
+            // may be unknown: find _self (and partition key) instead
+            var obj = await this.queryDocuments<{ _self: string }>(
+                new QueryBuilder<any>().where(typeof v === "string" || !v._self ?
+                    { id } : { _self: v._self }), options).read();
+            if (!obj) throw new NotFoundError();
             docURI = obj._self;
+            if (this.isPartitioned)
+                options.partitionKey = this.getPartitionKeyValue(obj);
         }
 
         // use deleteDocument to delete by URI (retry on 404 a few times)
@@ -409,7 +606,528 @@ export class Collection {
             this.database.client.documentClient.deleteDocument(
                 docURI!, options, callback);
         await curryPromise(tryDelete, this.database.client.timeout,
-            maxRetries, 500, true)();
+            maxRetries, 500, true,
+            this._context("Collection.deleteDocumentAsync", options))();
+    }
+
+    /** Store all given documents (an array, iterable, or async iterable such as a `DocumentStream`) using given store mode, running up to `parallelism` operations at the same time (with `low` request priority unless specified in `options`); operations that fail with a 429 (request rate too large) error are retried with an increasing delay up to `maxRetries` times (defaults to 5), but operations are not retried for any other reason (e.g. timeouts); returns a promise for an array with results for all documents, in the same order as the input, which is NOT rejected if any of the individual operations fail (but is rejected with a `CancellationError` if the operation is cancelled using the `signal` option) */
+    public async storeDocumentsAsync<T extends Partial<_DocumentDB.DocumentResource> & DocumentT>(
+        docs: Iterable<T & object> | AsyncIterable<T & object>,
+        mode?: StoreMode, parallelism = 10, maxRetries = 5, options?: AllOptions) {
+        await this.openAsync();
+        options = Object.assign(<AllOptions>{ priority: "low" }, options);
+        return this._bulkAsync<T & object, T>(docs, parallelism, maxRetries,
+            doc => this.storeDocumentAsync(doc, mode, 0, options),
+            doc => doc && doc.id, options.signal);
+    }
+
+    /** Delete all given documents (an array, iterable, or async iterable such as a `DocumentStream`, of IDs and/or objects with a `_self` or `id` property, see `deleteDocumentAsync`), running up to `parallelism` operations at the same time (with `low` request priority unless specified in `options`); operations that fail with a 429 (request rate too large) error are retried with an increasing delay up to `maxRetries` times (defaults to 5), but operations are not retried for any other reason (e.g. timeouts); returns a promise for an array with results for all documents, in the same order as the input, which is NOT rejected if any of the individual operations fail (but is rejected with a `CancellationError` if the operation is cancelled using the `signal` option) */
+    public async deleteDocumentsAsync(
+        docs: Iterable<string | { _self: string } | { id: string }> |
+            AsyncIterable<string | { _self: string } | { id: string }>,
+        parallelism = 10, maxRetries = 5, options?: AllOptions) {
+        await this.openAsync();
+        options = Object.assign(<AllOptions>{ priority: "low" }, options);
+        return this._bulkAsync<any, never>(docs, parallelism, maxRetries,
+            async doc => { await this.deleteDocumentAsync(doc, 0, options) },
+            doc => typeof doc === "string" ? doc : doc && doc.id, options.signal);
+    }
+
+    /** Export all documents in this collection (or the results of the query specified in `options`) to given writable stream or file (path), as newline-delimited JSON, i.e. one document per line; returns a promise for the number of documents exported (a file is closed before the promise resolves, but a stream is not ended) */
+    public exportDocumentsAsync(output: string | NodeJS.WritableStream,
+        options?: ExportOptions & AllOptions) {
+        return exportDocumentsAsync(this, output, options);
+    }
+
+    /** Import documents from given readable stream or file (path) with newline-delimited JSON, i.e. one document per line, as written by `exportDocumentsAsync`; documents are stored in batches using `storeDocumentsAsync` (see `ImportOptions`); returns a promise for the final progress information, or is rejected at the first error unless the `continueOnError` option is set (progress reported up to that point can be used to resume the import using the `skip` option) */
+    public importDocumentsAsync(input: string | NodeJS.ReadableStream,
+        options?: ImportOptions & AllOptions) {
+        return importDocumentsAsync(this, input, options);
+    }
+
+    /** Upload given media (a Buffer or readable stream) and attach it to given document (an ID, or an object with a `_self` or `id` property, see `deleteDocumentAsync`) using given attachment ID, replacing the existing attachment with the same ID, if any; returns the attachment resource; note that uploads from a stream are never retried, since the stream cannot be read again */
+    public async attachMediaAsync(doc: string | { _self: string } | { id: string },
+        id: string, media: _DocumentDB.MediaBody,
+        contentType = "application/octet-stream",
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var docURI = this._getDocURI(doc);
+        var mediaOptions: _DocumentDB.MediaOptions & AllOptions = Object.assign(
+            this._requestOptions(options, doc), { slug: id, contentType });
+        if (!Buffer.isBuffer(media)) maxRetries = 0;
+        let tryUpload = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Uploading attachment: " + id) &&
+            this.database.client.documentClient.upsertAttachmentAndUploadMedia(
+                docURI, media, mediaOptions, callback);
+        return await curryPromise<_DocumentDB.AttachmentResource>(tryUpload,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.attachMediaAsync", mediaOptions))();
+    }
+
+    /** Create or update an attachment for given document (an ID, or an object with a `_self` or `id` property) with given properties, i.e. an attachment that refers to externally stored media, or an existing attachment with updated (custom) properties; the attachment must include an `_etag` property if store mode is `UpdateOnlyIfNoChange`; returns the stored attachment resource */
+    public async storeAttachmentAsync(doc: string | { _self: string } | { id: string },
+        attachment: _DocumentDB.WriteAttachmentResource,
+        mode?: StoreMode, maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        if (!(<any>attachment instanceof Object)) throw new TypeError();
+        var docURI = this._getDocURI(doc);
+        options = this._requestOptions(options, doc);
+        var tryStore: (callback: (err: any, result: any) => void) => any;
+        switch (mode) {
+            case StoreMode.UpdateOnlyIfNoChange:
+                if (!attachment._etag) throw new Error("Attachment _etag missing");
+                options = Object.assign({
+                    accessCondition: {
+                        type: "IfMatch",
+                        condition: attachment._etag
+                    }
+                }, options);
+            // continue with update...
+            case StoreMode.UpdateOnly:
+                var attachmentURI = this._getAttachmentURI(doc, attachment.id);
+                tryStore = (callback) =>
+                    this.database.client.log("Replacing attachment: " + attachment.id) &&
+                    this.database.client.documentClient.replaceAttachment(
+                        attachmentURI, attachment, options, callback);
+                break;
+            case StoreMode.CreateOnly:
+                tryStore = (callback) =>
+                    this.database.client.log("Creating attachment: " + attachment.id) &&
+                    this.database.client.documentClient.createAttachment(
+                        docURI, attachment, options, callback);
+                break;
+            default:
+                tryStore = (callback) =>
+                    this.database.client.log("Upserting attachment: " + attachment.id) &&
+                    this.database.client.documentClient.upsertAttachment(
+                        docURI, attachment, options, callback);
+        }
+        return await curryPromise<_DocumentDB.AttachmentResource>(
+            tryStore, this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.storeAttachmentAsync", options))();
+    }
+
+    /** Get a list of all attachments for given document (an ID, or an object with a `_self` or `id` property) */
+    public async listAttachmentsAsync(doc: string | { _self: string } | { id: string },
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var docURI = this._getDocURI(doc);
+        options = this._requestOptions(options, doc);
+        let tryListAll = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Reading attachments for " + docURI) &&
+            this.database.client.documentClient.readAttachments(
+                docURI, options).toArray(callback);
+        return await curryPromise<_DocumentDB.AttachmentResource[]>(tryListAll,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.listAttachmentsAsync", options))();
+    }
+
+    /** Find the attachment with given ID for given document (an ID, or an object with a `_self` or `id` property) */
+    public async findAttachmentAsync(doc: string | { _self: string } | { id: string },
+        id: string, maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var attachmentURI = this._getAttachmentURI(doc, id);
+        options = this._requestOptions(options, doc);
+        let tryRead = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Reading attachment " + attachmentURI) &&
+            this.database.client.documentClient.readAttachment(
+                attachmentURI, options, callback);
+        return await curryPromise<_DocumentDB.AttachmentResource>(tryRead,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.findAttachmentAsync", options))();
+    }
+
+    /** Read the media for given attachment (or media link) into a Buffer */
+    public async readMediaAsync(attachment: string | { media: string },
+        maxRetries?: number, options?: AllOptions) {
+        var media = await this._readMediaAsync(attachment,
+            "Collection.readMediaAsync", maxRetries, options);
+        return await readBufferAsync(media);
+    }
+
+    /** Read the media for given attachment (or media link) as a readable stream */
+    public async readMediaStreamAsync(attachment: string | { media: string },
+        maxRetries?: number, options?: AllOptions): Promise<NodeJS.ReadableStream> {
+        var media = await this._readMediaAsync(attachment,
+            "Collection.readMediaStreamAsync", maxRetries, options);
+        if (!Buffer.isBuffer(media)) return media;
+        var stream = new PassThrough();
+        stream.end(media);
+        return stream;
+    }
+
+    /** Replace the media for given attachment (or media link) with given media (a Buffer or readable stream); note that uploads from a stream are never retried, since the stream cannot be read again */
+    public async replaceMediaAsync(attachment: string | { media: string },
+        media: _DocumentDB.MediaBody, contentType = "application/octet-stream",
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var mediaLink = typeof attachment === "string" ? attachment : attachment.media;
+        var mediaOptions: _DocumentDB.MediaOptions & AllOptions =
+            Object.assign({}, options, { contentType });
+        if (!Buffer.isBuffer(media)) maxRetries = 0;
+        let tryUpdate = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Replacing media: " + mediaLink) &&
+            this.database.client.documentClient.updateMedia(
+                mediaLink, media, mediaOptions, callback);
+        await curryPromise(tryUpdate,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.replaceMediaAsync", mediaOptions))();
+    }
+
+    /** Delete the attachment with given ID for given document (an ID, or an object with a `_self` or `id` property), along with its media (if uploaded) */
+    public async deleteAttachmentAsync(doc: string | { _self: string } | { id: string },
+        id: string, maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var attachmentURI = this._getAttachmentURI(doc, id);
+        options = this._requestOptions(options, doc);
+        let tryDelete = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Deleting attachment: " + attachmentURI) &&
+            this.database.client.documentClient.deleteAttachment(
+                attachmentURI, options, callback);
+        await curryPromise(tryDelete,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.deleteAttachmentAsync", options))();
+    }
+
+    /** Get a list of all stored procedures in this collection */
+    public async listStoredProceduresAsync(maxRetries?: number,
+        options?: AllOptions) {
+        await this.openAsync();
+        let tryListAll = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Reading stored procedures in " + this.id) &&
+            this.database.client.documentClient.readStoredProcedures(
+                this._self!, options).toArray(callback);
+        return await curryPromise<_DocumentDB.SprocResource[]>(tryListAll,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.listStoredProceduresAsync", options))();
+    }
+
+    /** Create or update a stored procedure with given ID, using given function or script source (note that functions are converted to a string and run on the server, so they cannot refer to any variables outside of the function itself) */
+    public async deployStoredProcedureAsync(id: string, script: Function | string,
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var sproc: _DocumentDB.WriteSprocResource & _DocumentDB.Identifiable =
+            typeof script === "function" ?
+                { id, serverScript: script } : { id, body: String(script) };
+        let tryUpsert = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Deploying stored procedure: " + id) &&
+            this.database.client.documentClient.upsertStoredProcedure(
+                this._self!, <any>sproc, options, callback);
+        return await curryPromise<_DocumentDB.SprocResource>(tryUpsert,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.deployStoredProcedureAsync", options))();
+    }
+
+    /** Delete the stored procedure with given ID */
+    public async deleteStoredProcedureAsync(id: string,
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var sprocURI = this._getChildURI("sprocs", id);
+        let tryDelete = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Deleting stored procedure: " + id) &&
+            this.database.client.documentClient.deleteStoredProcedure(
+                sprocURI, options, callback);
+        await curryPromise(tryDelete, this.database.client.timeout,
+            maxRetries, 500, true,
+            this._context("Collection.deleteStoredProcedureAsync", options))();
+    }
+
+    /** Execute the stored procedure with given ID, passing given parameters; returns the response body set by the stored procedure (for partitioned collections, the partition key value must be specified in `options`) */
+    public async executeStoredProcedureAsync<ResultT = any, ParamsT extends any[] = any[]>(
+        id: string, params?: ParamsT, maxRetries?: number, options?: AllOptions) {
+        var r = await this._executeStoredProcedure<ResultT>(id,
+            params, maxRetries, options);
+        return r.result;
+    }
+
+    /** Execute the stored procedure with given ID, passing given parameters, with script logging enabled; returns the response body set by the stored procedure as well as all script log output (for partitioned collections, the partition key value must be specified in `options`) */
+    public executeStoredProcedureWithLogAsync<ResultT = any, ParamsT extends any[] = any[]>(
+        id: string, params?: ParamsT, maxRetries?: number, options?: AllOptions) {
+        return this._executeStoredProcedure<ResultT>(id, params, maxRetries,
+            Object.assign({}, options, { enableScriptLogging: true }));
+    }
+
+    /** Get a list of all triggers in this collection */
+    public async listTriggersAsync(maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        let tryListAll = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Reading triggers in " + this.id) &&
+            this.database.client.documentClient.readTriggers(
+                this._self!, options).toArray(callback);
+        return await curryPromise<_DocumentDB.TriggerResource[]>(tryListAll,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.listTriggersAsync", options))();
+    }
+
+    /** Create or update a trigger with given ID, type (`Pre` or `Post`), operation (`All`, `Create`, `Replace`, or `Delete`), using given function or script source (note that functions are converted to a string and run on the server, so they cannot refer to any variables outside of the function itself); triggers only run when included explicitly using the `preTriggerInclude` or `postTriggerInclude` options */
+    public async deployTriggerAsync(id: string,
+        triggerType: _DocumentDB.TriggerType,
+        triggerOperation: _DocumentDB.TriggerOperation,
+        script: Function | string, maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var trigger: _DocumentDB.WriteTriggerResource =
+            typeof script === "function" ?
+                { id, triggerType, triggerOperation, serverScript: script } :
+                { id, triggerType, triggerOperation, body: String(script) };
+        let tryUpsert = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Deploying trigger: " + id) &&
+            this.database.client.documentClient.upsertTrigger(
+                this._self!, trigger, options, callback);
+        return await curryPromise<_DocumentDB.TriggerResource>(tryUpsert,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.deployTriggerAsync", options))();
+    }
+
+    /** Delete the trigger with given ID */
+    public async deleteTriggerAsync(id: string,
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var triggerURI = this._getChildURI("triggers", id);
+        let tryDelete = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Deleting trigger: " + id) &&
+            this.database.client.documentClient.deleteTrigger(
+                triggerURI, options, callback);
+        await curryPromise(tryDelete, this.database.client.timeout,
+            maxRetries, 500, true,
+            this._context("Collection.deleteTriggerAsync", options))();
+    }
+
+    /** Get a list of all user defined functions in this collection */
+    public async listUserDefinedFunctionsAsync(maxRetries?: number,
+        options?: AllOptions) {
+        await this.openAsync();
+        let tryListAll = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Reading user defined functions in " + this.id) &&
+            this.database.client.documentClient.readUserDefinedFunctions(
+                this._self!, options).toArray(callback);
+        return await curryPromise<_DocumentDB.UdfResource[]>(tryListAll,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.listUserDefinedFunctionsAsync", options))();
+    }
+
+    /** Create or update a user defined function with given ID, using given function or script source (note that functions are converted to a string and run on the server, so they cannot refer to any variables outside of the function itself); UDFs can be used in queries as `udf.id(...)` */
+    public async deployUserDefinedFunctionAsync(id: string, script: Function | string,
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var udf: _DocumentDB.WriteUdfResource =
+            typeof script === "function" ?
+                { id, serverScript: script } : { id, body: String(script) };
+        let tryUpsert = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Deploying user defined function: " + id) &&
+            this.database.client.documentClient.upsertUserDefinedFunction(
+                this._self!, udf, options, callback);
+        return await curryPromise<_DocumentDB.UdfResource>(tryUpsert,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.deployUserDefinedFunctionAsync", options))();
+    }
+
+    /** Delete the user defined function with given ID */
+    public async deleteUserDefinedFunctionAsync(id: string,
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var udfURI = this._getChildURI("udfs", id);
+        let tryDelete = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Deleting user defined function: " + id) &&
+            this.database.client.documentClient.deleteUserDefinedFunction(
+                udfURI, options, callback);
+        await curryPromise(tryDelete, this.database.client.timeout,
+            maxRetries, 500, true,
+            this._context("Collection.deleteUserDefinedFunctionAsync", options))();
+    }
+
+    /** @internal Helper function that executes a stored procedure, and returns its result and script log output */
+    private async _executeStoredProcedure<ResultT>(id: string, params?: any[],
+        maxRetries?: number, options?: AllOptions):
+        Promise<StoredProcedureResult<ResultT>> {
+        await this.openAsync();
+        options = this._requestOptions(options);
+        var sprocURI = this._getChildURI("sprocs", id);
+        var scriptLog = "";
+        let tryExecute = (callback: (err: any, result: any, headers?: any) => void) =>
+            this.database.client.log("Executing stored procedure: " + id) &&
+            this.database.client.documentClient.executeStoredProcedure(
+                sprocURI, params || [], options, (err, result, headers: any) => {
+                    var log = headers &&
+                        headers["x-ms-documentdb-script-log-results"];
+                    if (log) {
+                        try { scriptLog = decodeURIComponent(log) }
+                        catch (all) { scriptLog = log }
+                        this.database.client.log("Script log: " + scriptLog);
+                    }
+                    callback(err, result, headers);
+                });
+        var result = await curryPromise<ResultT>(tryExecute,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context("Collection.executeStoredProcedureAsync", options))();
+        return { result, scriptLog };
+    }
+
+    /** @internal Helper function that runs given operation for all given items, with limited parallelism and retrying on 429 errors (the operation itself should not retry); returns a list of results, or throws a `CancellationError` as soon as given signal is aborted */
+    private async _bulkAsync<ItemT, ResultT>(
+        items: Iterable<ItemT> | AsyncIterable<ItemT>, parallelism: number,
+        maxRetries: number,
+        f: (item: ItemT) => Promise<(ResultT & _DocumentDB.DocumentResource) | void>,
+        getId: (item: ItemT) => string | undefined,
+        signal?: CancellationSignal) {
+        if (!(parallelism >= 1)) throw new RangeError();
+        var iterator: Iterator<ItemT> | AsyncIterator<ItemT> =
+            (<any>items)[Symbol.asyncIterator] ?
+                (<AsyncIterable<ItemT>>items)[Symbol.asyncIterator]() :
+                (<Iterable<ItemT>>items)[Symbol.iterator]();
+        var results: Array<BulkOperationResult<ResultT>> = [];
+        var nextIndex = 0, done = false;
+
+        // run a number of workers that take items from the same iterator
+        let runWorker = async () => {
+            while (!done) {
+                throwIfCancelled(signal);
+                var next = await iterator.next();
+                if (next.done) { done = true; break }
+                var item = next.value, index = nextIndex++;
+                var result: BulkOperationResult<ResultT> = {
+                    index, id: getId(item), success: false
+                };
+                results[index] = result;
+                for (var retries = 0; ; retries++) {
+                    try {
+                        var resource = await f(item);
+                        result.success = true;
+                        if (resource) {
+                            result.resource = resource;
+                            result.id = resource.id;
+                        }
+                        break;
+                    }
+                    catch (err) {
+                        if (err instanceof CancellationError) {
+                            done = true;
+                            throw err;
+                        }
+                        if (err.code === 429 /* too many requests */ &&
+                            retries < maxRetries) {
+                            this.database.client.log("Request rate too large, retrying...");
+                            await cancellableSleepAsync(100 * Math.pow(2, retries), signal);
+                            continue;
+                        }
+                        result.error = err;
+                        break;
+                    }
+                }
+            }
+        };
+        var workers: Array<Promise<void>> = [];
+        for (var i = 0; i < parallelism; i++) workers.push(runWorker());
+        await Promise.all(workers);
+        return results;
+    }
+
+    /** @internal Helper function that reads the collection resource (including quota information), and returns the resource along with the response headers */
+    private async _readResourceAsync(operation: string, maxRetries?: number,
+        options?: AllOptions) {
+        await this.openAsync();
+        var readOptions: AllOptions = Object.assign({}, options,
+            { populateQuotaInfo: true });
+        let tryRead = (callback: (err: any, result: any, headers?: any) => void) =>
+            this.database.client.log("Reading collection " + this.id) &&
+            this.database.client.documentClient.readCollection(
+                this._self!, readOptions, (err, resource, headers) => {
+                    callback(err, { resource, headers: headers || {} }, headers);
+                });
+        return await curryPromise<{
+            resource: _DocumentDB.CollectionResource,
+            headers: { [name: string]: string }
+        }>(tryRead, this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context(operation, options))();
+    }
+
+    /** @internal Helper function that reads the media for given attachment (or media link), i.e. either a Buffer or a stream depending on the `MediaReadMode` connection policy */
+    private async _readMediaAsync(attachment: string | { media: string },
+        operation: string, maxRetries?: number, options?: AllOptions) {
+        await this.openAsync();
+        var mediaLink = typeof attachment === "string" ? attachment : attachment.media;
+        options = this._requestOptions(options);
+        var sessionToken = options.sessionToken;
+        let tryRead = (callback: (err: any, result: any) => void) => {
+            this.database.client.log("Reading media: " + mediaLink);
+
+            // readMedia does not accept request options, so pass the session
+            // token using the default headers, which are copied synchronously
+            var client = this.database.client.documentClient;
+            var headers = client.defaultHeaders;
+            if (headers && sessionToken) {
+                client.defaultHeaders = Object.assign({}, headers,
+                    { "x-ms-session-token": sessionToken });
+            }
+            try {
+                client.readMedia(mediaLink, callback);
+            }
+            finally {
+                client.defaultHeaders = headers;
+            }
+        };
+        return await curryPromise<Buffer | NodeJS.ReadableStream>(tryRead,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this._context(operation, options))();
+    }
+
+    /** @internal Validate given document using the validator function, if any; throws a `ValidationError` if the document is not valid */
+    public async _validateAsync(doc: any) {
+        var validator = this.validator;
+        if (!validator) return;
+        var result = await validator(doc);
+        var errors: string[] = [];
+        if (result === false) {
+            var details = (<any>validator).errors;
+            if (Array.isArray(details)) {
+                errors = details.map(e => typeof e === "string" ? e :
+                    [e.instancePath || e.dataPath, e.message]
+                        .filter(s => !!s).join(" "));
+            }
+            if (!errors.length) errors = ["Document is not valid"];
+        }
+        else if (typeof result === "string") errors = [result];
+        else if (Array.isArray(result)) errors = result;
+        if (errors.length) throw new ValidationError(errors, doc);
+    }
+
+    /** @internal Returns a request context for given operation (see `Client._context`), which also saves the session token for this collection from all responses, and calls given function with response information, if any */
+    public _context(operation: string, options?: {},
+        f?: (info: ResponseInfo) => void) {
+        var client = this.database.client;
+        return client._context(operation, options, info => {
+            if (info.sessionToken)
+                client._updateSessionToken(this._sessionPath, info.sessionToken);
+            f && f(info);
+        });
+    }
+
+    /** @internal Helper function that returns a copy of given options, including the session token for this collection unless specified */
+    private _sessionOptions(options?: AllOptions): AllOptions {
+        var result: AllOptions = Object.assign({}, options);
+        if (result.sessionToken === undefined) {
+            var token = this.sessionToken;
+            if (token) result.sessionToken = token;
+        }
+        return result;
+    }
+
+    /** @internal Helper function that returns a copy of given request options, including the partition key value taken from given document if needed */
+    private _requestOptions(options?: AllOptions, doc?: {}): AllOptions {
+        var result: AllOptions = this._sessionOptions(options);
+        if (this.isPartitioned && result.partitionKey === undefined && doc) {
+            var value = this.getPartitionKeyValue(doc);
+            if (value !== undefined) result.partitionKey = value;
+        }
+        return result;
+    }
+
+    /** @internal Helper function that returns a copy of given feed options, enabling cross-partition queries for partitioned collections if no partition key value is specified */
+    private _feedOptions(options?: AllOptions): AllOptions {
+        var result: AllOptions = this._sessionOptions(options);
+        if (this.isPartitioned && result.partitionKey === undefined &&
+            result.enableCrossPartitionQuery === undefined)
+            result.enableCrossPartitionQuery = true;
+        return result;
     }
 
     /** @internal Helper function that returns a document URI for given ID or object */
@@ -418,12 +1136,29 @@ export class Collection {
             if (v._self) return v._self;
             v = String(v.id || "");
         }
+        return this._getChildURI("docs", v);
+    }
+
+    /** @internal Helper function that returns a URI for the attachment with given ID, for given document */
+    private _getAttachmentURI(doc: string | { id?: string, _self?: string }, id: string) {
+        if (!id || /[\/\\\?#]/.test(id))
+            throw new Error("Invalid resource ID: " + JSON.stringify(id));
+        return this._getDocURI(doc).replace(/\/$/, "") + "/attachments/" + id;
+    }
+
+    /** @internal Helper function that returns a URI for a child resource (e.g. `docs`, `sprocs`) with given ID */
+    private _getChildURI(type: string, id: string): string {
         var chars = /[\/\\\?#]/;
-        if (!v || chars.test(<string>v) || chars.test(this.id))
-            throw new Error("Invalid resource ID: " + JSON.stringify(v));
+        if (!id || chars.test(id) || chars.test(this.id))
+            throw new Error("Invalid resource ID: " + JSON.stringify(id));
         return "dbs/" + this.database.id +
             "/colls/" + this.id +
-            "/docs/" + <string>v;
+            "/" + type + "/" + id;
+    }
+
+    /** @internal Path used to save the session token for this collection */
+    private get _sessionPath() {
+        return "dbs/" + this.database.id + "/colls/" + this.id;
     }
 
     /** @internal Self link */
@@ -1,7 +1,11 @@
 import * as _DocumentDB from "./_DocumentDB";
 import { Client } from "./Client";
-import { curryPromise, sleepAsync } from "./Util";
-import { Collection } from "./Collection";
+import { curryPromise } from "./Util";
+import { Collection, AllOptions } from "./Collection";
+import { User } from "./User";
+import { CancellationError, cancellableSleepAsync } from "./Cancellation";
+import { mergeRetryPolicies } from "./RetryPolicy";
+import { NotFoundError } from "./Errors";
 
 /** Represents a DocumentDB database */
 export class Database {
@@ -36,40 +40,47 @@ export class Database {
         return this._self || "dbs/" + encodeURIComponent(this.id) + "/";
     }
 
-    /** Open and validate the connection, check that this database exists */
-    public async openAsync(maxRetries?: number) {
+    /** Open and validate the connection, check that this database exists (not checked for clients that use resource tokens, since these cannot list databases) */
+    public async openAsync(maxRetries?: number, options?: AllOptions) {
         if (this._self) return this;
-        await this.client.openAsync(maxRetries);
+        await this.client.openAsync(maxRetries, options);
+        if (this.client.usesResourceTokens) return this;
 
         // find this database's self link from client's list of databases
-        var dbs = await this.client.listDatabasesAsync(false, maxRetries);
+        var dbs = await this.client.listDatabasesAsync(false, maxRetries, options);
         dbs.some(r => (r.id === this.id ? !!(this._self = r._self) : false));
 
-        if (!this._self) throw new Error("Database does not exist: " + this.id);
+        if (!this._self) throw new NotFoundError("Database does not exist: " + this.id);
         return this;
     }
 
-    /** Open and validate connection, find or create database resource */
-    public async openOrCreateAsync(maxRetries = 3) {
+    /** Open and validate connection, find or create database resource (not checked for clients that use resource tokens) */
+    public async openOrCreateAsync(maxRetries?: number, options?: AllOptions) {
         if (this._self) return this;
-        await this.client.openAsync(maxRetries);
+        await this.client.openAsync(maxRetries, options);
+        if (this.client.usesResourceTokens) return this;
 
         // find this database's self link from client's list of databases
+        // (retrying failed creates as often as the retry policy allows)
+        var retries = maxRetries !== undefined ? maxRetries :
+            mergeRetryPolicies(this.client.retryPolicy,
+                options && options.retryPolicy).maxRetries || 0;
         var forceReload = false;
         while (true) {
-            var dbs = await this.client.listDatabasesAsync(forceReload);
+            var dbs = await this.client.listDatabasesAsync(forceReload, undefined, options);
             dbs.some(db => (db.id === this.id ? !!(this._self = db._self) : false));
             if (!this._self) {
                 try {
                     // create the database now
-                    await this.client.createDatabaseAsync(this.id);
+                    await this.client.createDatabaseAsync(this.id, undefined, options);
                     return this;
                 }
                 catch (err) {
-                    if (err.code <= 404 || maxRetries-- <= 0) throw err;
+                    if (err instanceof CancellationError ||
+                        err.code <= 404 || retries-- <= 0) throw err;
                     // otherwise, continue and maybe pick up the created DB
                     // in the next iteration
-                    await sleepAsync(100);
+                    await cancellableSleepAsync(100, options && options.signal);
                     forceReload = true;
                 }
             }
@@ -78,29 +89,60 @@ export class Database {
     }
 
     /** Get a list of Collection instances for this database */
-    public async listCollectionsAsync(maxRetries?: number, options?: _DocumentDB.FeedOptions) {
-        await this.openAsync(maxRetries);
+    public async listCollectionsAsync(maxRetries?: number, options?: AllOptions) {
+        await this.openAsync(maxRetries, options);
 
         // get all collections using readCollections
         let tryListAll = (callback: (err: any, result: any) => void) =>
             this.client.log("Reading collections in " + this.id) &&
             this.client.documentClient.readCollections(this._self!, options)
                 .toArray(callback);
-        var resources = await curryPromise(tryListAll, this.client.timeout, maxRetries)();
+        var resources = await curryPromise(tryListAll, this.client.timeout,
+            maxRetries, undefined, undefined,
+            this.client._context("Database.listCollectionsAsync", options))();
 
         // map resources to Collection instances
-        return (<any[]>resources).map(r => new Collection(r.id, this, r._self));
+        return (<_DocumentDB.CollectionResource[]>resources).map(r => {
+            var collection = new Collection(r.id, this, r._self);
+            collection.partitionKey = r.partitionKey;
+            return collection;
+        });
+    }
+
+    /** Get a list of User instances for this database */
+    public async listUsersAsync(maxRetries?: number, options?: AllOptions) {
+        await this.openAsync(maxRetries, options);
+
+        // get all users using readUsers
+        let tryListAll = (callback: (err: any, result: any) => void) =>
+            this.client.log("Reading users in " + this.id) &&
+            this.client.documentClient.readUsers(this._self!, options)
+                .toArray(callback);
+        var resources = await curryPromise<_DocumentDB.UserResource[]>(
+            tryListAll, this.client.timeout, maxRetries, undefined, undefined,
+            this.client._context("Database.listUsersAsync", options))();
+
+        // map resources to User instances
+        return resources.map(r => new User(r.id, this, r._self));
+    }
+
+    /** Create a user with given name (or find an existing user), and return a User instance */
+    public async createUserAsync(id: string, maxRetries?: number,
+        options?: AllOptions) {
+        await this.openAsync(maxRetries, options);
+        return await new User(id, this).openOrCreateAsync(maxRetries, options);
     }
 
     /** Delete this database */
-    public async deleteAsync(maxRetries?: number, options?: _DocumentDB.RequestOptions) {
-        await this.openAsync(maxRetries);
+    public async deleteAsync(maxRetries?: number, options?: AllOptions) {
+        await this.openAsync(maxRetries, options);
 
         // use deleteDatabase to delete the database (duh...)
         let tryDelete = (callback: (err: any, result: any) => void) =>
             this.client.log("Deleting database: " + this.id) &&
             this.client.documentClient.deleteDatabase(this._self!, options, callback);
-        await curryPromise(tryDelete, this.client.timeout)();
+        await curryPromise(tryDelete, this.client.timeout, undefined, undefined, undefined,
+            this.client._context("Database.deleteAsync", options))();
         delete this._self;
     }
 
@@ -1,32 +1,61 @@
 import * as _DocumentDB from "./_DocumentDB";
+import { Readable } from "stream";
 import { Collection } from "./Collection";
 import { curryPromise } from "./Util";
+import { CancellationSignal, CancellationSource, CancellationError } from "./Cancellation";
 
 // polyfill Symbol.asyncIterator
 if (!(<any>Symbol).asyncIterator) {
     (<any>Symbol).asyncIterator = Symbol("Symbol.asyncIterator");
 }
 
-/** Represents asynchronously loaded query result sets as a stream; the type parameter represents the query result type, i.e. a full document resource type for `SELECT * FROM` queries, an object with only projected properties for `SELECT x, y, ... FROM` queries, or even a scalar value for `SELECT VALUE ... FROM` queries */
+/** A single page of query results, along with a continuation token that can be used to resume the query from the next page (see `DocumentStream.readPageAsync`) */
+export interface DocumentPage<T> {
+    /** The results on this page (may be empty if there are no results left) */
+    items: T[];
+    /** Continuation token for the next page, or undefined if there are no more results; pass this token to `Collection.queryDocuments` using the `continuation` option (with the same query and `maxItemCount`) to resume the query at a later point in time */
+    continuation?: string;
+}
+
+/** Format of a Node.js readable stream returned by `DocumentStream.toReadable`: an object mode stream with one chunk per result, or a text stream with a JSON array of all results, or with newline-delimited JSON (one result per line) */
+export type ReadableFormat = "object" | "json" | "ndjson";
+
+/** @internal Source of results for a stream that is derived from another stream (see `DocumentStream.map` etc.) */
+interface DerivedSource<T> {
+    /** Read the next result from the original stream, and apply the operator */
+    next(signal?: CancellationSignal): Promise<IteratorResult<T>>;
+    /** Reset operator state, and the original stream */
+    reset(): void;
+    /** Terminate the original stream */
+    return(): void;
+}
+
+/** Represents asynchronously loaded query result sets as a stream; the type parameter represents the query result type, i.e. a full document resource type for `SELECT * FROM` queries, an object with only projected properties for `SELECT x, y, ... FROM` queries, or even a scalar value for `SELECT VALUE ... FROM` queries; all operations can be cancelled using the `signal` option passed to `Collection.queryDocuments`, or a signal passed to individual methods (results that are being read while an operation is cancelled are lost, hence the stream should be reset or discarded after cancellation) */
 export class DocumentStream<T> implements AsyncIterable<T> {
     /** @internal create a document stream from a query iterator promise */
     public static create<T>(_collection: Collection, _uid: number,
-        _qiP: Promise<_DocumentDB.QueryIterator<T>>) {
-        return new DocumentStream(_collection, _uid, _qiP);
+        _qiP: Promise<_DocumentDB.QueryIterator<T>>, _options?: {},
+        _validateAsync?: (doc: T) => Promise<void>) {
+        return new DocumentStream(_collection, _uid, _qiP, _options, _validateAsync);
     }
 
     /** Private constructor */
     private constructor(private _collection: Collection, private _uid: number,
-        private _qiP: Promise<_DocumentDB.QueryIterator<T>>) {
+        private _qiP: Promise<_DocumentDB.QueryIterator<T>>, private _options?: {},
+        private _validateAsync?: (doc: T) => Promise<void>,
+        private _source?: DerivedSource<T>) {
         // nothing here
     }
 
     /** Timeout (ms) used for all operations; set to the Client timeout initially, set this to a large number if reading a large result set using `toArray` */
     public timeout = this._collection.database.client.timeout;
 
+    /** Total request charge (RUs) of all requests made for this stream so far (also included in the total for the client); for streams returned by operators such as `map` and `filter`, the request charge is only added to the original stream */
+    public requestCharge = 0;
+
     /** Get the next result (asynchronously), if any; promise resolves to the result, or to `null` if there are no results left in the set, or is rejected if an error occurred; subsequent calls to this function will return promises for results after the current result (i.e. requests are queued) */
-    public async read(): Promise<T | null> {
-        var nextResult = await this.next();
+    public async read(signal?: CancellationSignal): Promise<T | null> {
+        var nextResult = await this.next(signal);
         return nextResult.done ? null : nextResult.value!;
     }
 
@@ -34,22 +63,32 @@ export class DocumentStream<T> implements AsyncIterable<T> {
     [Symbol.asyncIterator] = () => this;
 
     /** Get the next result (asynchronously), if any; promise resolves to a `{ value, done }` pair, or is rejected if an error occurred; subsequent calls to this function will return promises for results after the current result (i.e. requests are queued) */
-    public async next(): Promise<IteratorResult<T>> {
+    public async next(signal?: CancellationSignal): Promise<IteratorResult<T>> {
+        if (this._closed) return { value: <any>undefined, done: true };
+        if (this._source) {
+            let source = this._source;
+            let readNext = () => source.next(signal);
+            return await (this._nextP = this._nextP.then(readNext, readNext));
+        }
         var qi = this._qi || (this._qi = await this._qiP);
-        var readNextAsync = curryPromise<T>(qi.nextItem.bind(qi), this.timeout, 0, 100);
-        var next: T = await (this._nextP = this._nextP.then(() =>
-            this._collection.database.client.log(
-                `[>>${this._uid}] Reading from stream...`) &&
-            readNextAsync()));
+        var readNextAsync = curryPromise<T>(qi.nextItem.bind(qi),
+            this.timeout, undefined, 100, undefined,
+            this._context("DocumentStream.next", signal));
+        // queue after the previous request, even if it failed
+        let read = () => this._collection.database.client.log(
+            `[>>${this._uid}] Reading from stream...`) && readNextAsync();
+        var next: T = await (this._nextP = this._nextP.then(read, read));
+        if (next !== undefined && this._validateAsync)
+            await this._validateAsync(next);
         return next !== undefined ?
             { value: next, done: false } :
             { value: <any>undefined, done: true };
     }
 
     /** Call a function for each result, until all results have been processed or the callback returns `false` or throws an error; returned promise resolves to true if all results have been processed, or false otherwise, or is rejected if an error occurred */
-    public forEach(f: (doc: T) => any) {
+    public forEach(f: (doc: T) => any, signal?: CancellationSignal) {
         let next = (): PromiseLike<boolean> => {
-            return this.next().then(n => {
+            return this.next(signal).then(n => {
                 if (n.done) return true;
                 if (f(n.value) === false) return false;
                 return next();
@@ -59,41 +98,333 @@ export class DocumentStream<T> implements AsyncIterable<T> {
     }
 
     /** Call a function for each result; returns a promise for an array with all return values, which is resolved only when all results have been processed, or is rejected if the callback throws an error */
-    public async mapAsync<ResultT>(f: (doc: T) => ResultT) {
+    public async mapAsync<ResultT>(f: (doc: T) => ResultT, signal?: CancellationSignal) {
         var result = [];
         while (true) {
-            var n = await this.next();
+            var n = await this.next(signal);
             if (n.done) return result;
             result.push(f(n.value));
         }
     }
 
+    /** Returns a promise for the first result, or `null` if there are no results; the stream is closed afterwards (see `return`) */
+    public async first(signal?: CancellationSignal): Promise<T | null> {
+        var nextResult = await this.next(signal);
+        this.return();
+        return nextResult.done ? null : nextResult.value!;
+    }
+
+    /** Call given function (which may be async) for each result along with an accumulated value, starting with given initial value; returns a promise for the final accumulated value */
+    public async reduce<ResultT>(
+        f: (value: ResultT, doc: T) => ResultT | PromiseLike<ResultT>,
+        initial: ResultT, signal?: CancellationSignal) {
+        var value = initial;
+        while (true) {
+            var n = await this.next(signal);
+            if (n.done) return value;
+            value = await f(value, n.value);
+        }
+    }
+
+    /** Returns a new stream with the results of given function (which may be async) for each result of this stream; results are read from this stream only as they are read from the new stream, and resetting or closing the new stream resets or closes this stream as well (the same applies to `filter`, `flatMap`, `take`, `skip`, and `chunk`) */
+    public map<ResultT>(f: (doc: T, index: number) =>
+        ResultT | PromiseLike<ResultT>): DocumentStream<ResultT> {
+        var index = 0;
+        return this._derive<ResultT>(async signal => {
+            var n = await this.next(signal);
+            if (n.done) return <any>n;
+            return { value: await f(n.value, index++), done: false };
+        }, () => { index = 0 });
+    }
+
+    /** Returns a new stream with only those results of this stream for which given function (which may be async) returns true */
+    public filter(f: (doc: T, index: number) => boolean | PromiseLike<boolean>) {
+        var index = 0;
+        return this._derive<T>(async signal => {
+            while (true) {
+                var n = await this.next(signal);
+                if (n.done || await f(n.value, index++)) return n;
+            }
+        }, () => { index = 0 });
+    }
+
+    /** Returns a new stream with all elements of the lists (or other iterables) returned by given function (which may be async) for each result of this stream */
+    public flatMap<ResultT>(f: (doc: T, index: number) =>
+        Iterable<ResultT> | PromiseLike<Iterable<ResultT>>): DocumentStream<ResultT> {
+        var index = 0, buffer: ResultT[] = [];
+        return this._derive<ResultT>(async signal => {
+            while (!buffer.length) {
+                var n = await this.next(signal);
+                if (n.done) return <any>n;
+                buffer = Array.from(await f(n.value, index++));
+            }
+            return { value: buffer.shift()!, done: false };
+        }, () => { index = 0; buffer = [] });
+    }
+
+    /** Returns a new stream with (at most) the first `count` results of this stream; this stream is closed as soon as all of these results have been read (see `return`) */
+    public take(count: number) {
+        var taken = 0;
+        return this._derive<T>(async signal => {
+            if (taken >= count) {
+                this.return();
+                return { value: <any>undefined, done: true };
+            }
+            var n = await this.next(signal);
+            if (!n.done && ++taken >= count) this.return();
+            return n;
+        }, () => { taken = 0 });
+    }
+
+    /** Returns a new stream with all but the first `count` results of this stream */
+    public skip(count: number) {
+        var skipped = 0;
+        return this._derive<T>(async signal => {
+            while (true) {
+                var n = await this.next(signal);
+                if (n.done || skipped >= count) return n;
+                skipped++;
+            }
+        }, () => { skipped = 0 });
+    }
+
+    /** Returns a new stream with arrays of (up to) `size` consecutive results of this stream */
+    public chunk(size: number): DocumentStream<T[]> {
+        if (!(size >= 1)) throw new RangeError();
+        return this._derive<T[]>(async signal => {
+            var items: T[] = [];
+            while (items.length < size) {
+                var n = await this.next(signal);
+                if (n.done) break;
+                items.push(n.value);
+            }
+            return items.length ?
+                { value: items, done: false } :
+                { value: <any>undefined, done: true };
+        });
+    }
+
+    /** Returns a Node.js readable stream with all results in given format (see `ReadableFormat`; `null` results are skipped in object mode), e.g. to be piped into an HTTP response or file; pages of results are only read from this stream when the readable stream is read by its consumer (i.e. with backpressure), hence this stream should not be read from directly while the readable stream is in use; the readable stream is destroyed, which closes this stream (see `return`), if the destination that it is piped to is closed before all results have been consumed, e.g. when an HTTP response is closed early, or when given signal is aborted */
+    public toReadable(format: ReadableFormat = "object",
+        signal?: CancellationSignal): Readable {
+        return new DocumentReadable(this, format, signal);
+    }
+
+    /** Close the stream, i.e. stop reading results (without waiting for pending operations) and release results that have been loaded already; after this, the stream does not return any results unless it is reset; this method is called automatically when breaking out of a `for await` loop */
+    public return(value?: any): Promise<IteratorResult<T>> {
+        this._closed = true;
+        if (this._source) this._source.return();
+        else this._qi && this._qi.reset();
+        return Promise.resolve({ value, done: true });
+    }
+
     /** Reset the stream to the beginning of the set (synchronously); returns the stream itself */
     public reset(): this {
-        this._qi && this._qi.reset();
+        this._closed = false;
+        this._nextP = Promise.resolve(true);
+        if (this._source) this._source.reset();
+        else this._qi && this._qi.reset();
         return this;
     }
 
     /** Reset the stream to the beginning of the set (asynchronously, i.e. after all queued operations have completed) */
     public resetAsync() {
-        return this._nextP.then(() => {
-            this._qi && this._qi.reset();
-        });
+        let reset = () => { this.reset() };
+        return this._nextP.then(reset, reset);
     }
 
+    /** Get the next page of results (asynchronously), i.e. up to `maxItemCount` results as specified in the query options, along with a continuation token for the next page (for streams returned by operators such as `map` and `filter`, up to `maxItemCount` or 100 results are returned without a continuation token); page reads should not be mixed with reads of individual results on the same stream; subsequent calls to this function will return promises for the pages after the current page (i.e. requests are queued) */
+    public async readPageAsync(signal?: CancellationSignal): Promise<DocumentPage<T>> {
+        if (this._closed) return { items: [] };
+        if (this._source) {
+            // read up to one page of results from a derived stream
+            var options: _DocumentDB.FeedOptions = this._options || {};
+            var items: T[] = [];
+            while (items.length < (options.maxItemCount || 100)) {
+                var n = await this.next(signal);
+                if (n.done) break;
+                items.push(n.value);
+            }
+            return { items };
+        }
+        var qi = this._qi || (this._qi = await this._qiP);
+        let tryReadPage = (callback: (err: any, result: any, headers?: any) => void) =>
+            qi.executeNext((err, list, headers) => {
+                var continuation = headers && headers["x-ms-continuation"];
+                callback(err, { items: list || [], continuation }, headers);
+            });
+        let read = () => this._collection.database.client.log(
+            `[>>${this._uid}] Reading page from stream...`) &&
+            curryPromise<DocumentPage<T>>(tryReadPage, this.timeout, undefined,
+                undefined, undefined, this._context("DocumentStream.readPageAsync", signal))();
+        var page: DocumentPage<T> = await (this._nextP = this._nextP.then(read, read));
+        this.continuation = page.continuation;
+        if (this._validateAsync) {
+            for (var item of page.items) await this._validateAsync(item);
+        }
+        return page;
+    }
+
+    /** The continuation token returned along with the last page that was read using `readPageAsync`, or undefined if there are no more results (or no page has been read yet) */
+    public continuation?: string;
+
     /** Load all results into an array */
-    public async toArray(): Promise<T[]> {
+    public async toArray(signal?: CancellationSignal): Promise<T[]> {
+        if (this._closed) return [];
+        if (this._source) return await this.mapAsync(doc => doc, signal);
         var qi = this._qi || (this._qi = await this._qiP);
-        var readArrayAsync = curryPromise<T[]>(qi.toArray.bind(qi), this.timeout, 0);
-        return await (this._nextP = this._nextP.then(() =>
-            this._collection.database.client.log(
-                `[>>${this._uid}] Reading into array from stream...`) &&
-            readArrayAsync()));
+        var readArrayAsync = curryPromise<T[]>(qi.toArray.bind(qi),
+            this.timeout, undefined, undefined, undefined,
+            this._context("DocumentStream.toArray", signal));
+        let read = () => this._collection.database.client.log(
+            `[>>${this._uid}] Reading into array from stream...`) && readArrayAsync();
+        var results: T[] = await (this._nextP = this._nextP.then(read, read));
+        if (this._validateAsync) {
+            for (var item of results) await this._validateAsync(item);
+        }
+        return results;
+    }
+
+    /** @internal Returns a request context for given operation, which also adds the request charge to the total for this stream, and uses given cancellation signal instead of the signal in the stream's options, if specified */
+    private _context(operation: string, signal?: CancellationSignal) {
+        var options = signal ?
+            Object.assign({}, this._options, { signal }) : this._options;
+        return this._collection._context(operation, options,
+            info => { this.requestCharge += info.requestCharge });
+    }
+
+    /** @internal Returns a new stream that reads results using given function (which reads from this stream, and closes this stream if an error occurs), and that resets given operator state as well as this stream when reset */
+    private _derive<ResultT>(
+        next: (signal?: CancellationSignal) => Promise<IteratorResult<ResultT>>,
+        reset?: () => void) {
+        return new DocumentStream<ResultT>(this._collection, this._uid,
+            <any>this._qiP, this._options, undefined, {
+                next: async signal => {
+                    try {
+                        return await next(signal);
+                    }
+                    catch (err) {
+                        this.return();
+                        throw err;
+                    }
+                },
+                reset: () => {
+                    reset && reset();
+                    this.reset();
+                },
+                return: () => { this.return() }
+            });
     }
 
+    /** @internal True if this stream has been returned by an operator such as `map` or `filter` (i.e. pages do not have continuation tokens) */
+    public get _isDerived() { return !!this._source }
+
+    /** @internal True if the stream has been closed using `return` */
+    private _closed = false;
+
     /** @internal The resolved query iterator, if any */
     private _qi?: _DocumentDB.QueryIterator<T>;
 
     /** @internal Promise for the last operation's result */
     private _nextP: PromiseLike<any> = Promise.resolve(true);
 }
+
+/** @internal Readable stream that reads pages of results from a document stream on demand (see `DocumentStream.toReadable`) */
+class DocumentReadable<T> extends Readable {
+    constructor(private _stream: DocumentStream<T>, private _format: ReadableFormat,
+        private _signal?: CancellationSignal) {
+        super({ objectMode: _format === "object" });
+        if (_signal) {
+            // destroy right away if already cancelled
+            if (_signal.aborted) this._onAbort();
+            else _signal.addEventListener("abort", this._onAbort);
+        }
+        this.once("end", () => { this._consumed = true });
+    }
+
+    /** Pipe results to given destination; this stream is destroyed if the destination is closed before all results have been consumed */
+    public pipe<W extends NodeJS.WritableStream>(destination: W,
+        options?: { end?: boolean }): W {
+        destination.on("close", () => {
+            if (!this._consumed && !this._destroyed) (<any>this).destroy();
+        });
+        return super.pipe(destination, options);
+    }
+
+    /** Called by Node.js when more data should be pushed; reads the next page */
+    public _read() {
+        if (this._reading || this._ended || this._destroyed) return;
+        this._reading = true;
+        this._stream.readPageAsync(this._cancellation.signal).then(page => {
+            this._reading = false;
+            if (this._destroyed) return;
+            for (var item of page.items) this._push(item);
+            if (this._stream._isDerived ? !page.items.length :
+                page.continuation === undefined) {
+                // no more results
+                if (this._format === "json")
+                    this.push(this._count ? "\n]\n" : "[]\n");
+                this._ended = true;
+                this._removeListener();
+                this.push(null);
+            }
+            else if (!page.items.length) {
+                this._read();
+            }
+        }, err => {
+            this._reading = false;
+            if (!this._destroyed) (<any>this).destroy(err);
+        });
+    }
+
+    /** Called by Node.js when the stream is destroyed; closes the document stream and cancels the current page read, if any */
+    public _destroy(err: any, callback: (err?: any) => void) {
+        this._destroyed = true;
+        this._removeListener();
+        this._cancellation.cancel();
+        this._stream.return();
+        callback(err);
+    }
+
+    /** Push given result in the selected format */
+    private _push(item: T) {
+        switch (this._format) {
+            case "object":
+                if (item !== null) this.push(item);
+                break;
+            case "json":
+                this.push((this._count++ ? ",\n" : "[\n") + JSON.stringify(item));
+                break;
+            default:
+                this.push(JSON.stringify(item) + "\n");
+        }
+    }
+
+    /** Remove the abort listener from the cancellation signal, if any */
+    private _removeListener() {
+        if (this._signal) this._signal.removeEventListener("abort", this._onAbort);
+    }
+
+    /** Handler for the cancellation signal */
+    private _onAbort = () => {
+        (<any>this).destroy(new CancellationError());
+    };
+
+    /** Source used to cancel a pending page read when destroyed */
+    private _cancellation = new CancellationSource();
+
+    /** True while a page is being read */
+    private _reading = false;
+
+    /** True if all results have been pushed */
+    private _ended = false;
+
+    /** True if all data has been consumed (i.e. after the `end` event) */
+    private _consumed = false;
+
+    /** True if the stream has been destroyed */
+    private _destroyed = false;
+
+    /** Number of results pushed so far (for JSON format) */
+    private _count = 0;
+}
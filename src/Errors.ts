@@ -0,0 +1,122 @@
+/** Base class for all errors that represent an error response from DocumentDB (or a request that timed out); the HTTP status code can be found in the `code` property, and the subclasses below are used for common status codes */
+export class DocumentDBError extends Error {
+    /** Create a new error with given message, status code, and response headers (if any) */
+    constructor(message = "Database error", code?: number,
+        headers?: { [name: string]: string }) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "DocumentDBError";
+        this.code = code;
+        if (headers) {
+            var substatus = parseFloat(headers["x-ms-substatus"]);
+            if (substatus >= 0) this.substatus = substatus;
+            this.activityId = headers["x-ms-activity-id"];
+            var retryAfterMs = parseFloat(headers["x-ms-retry-after-ms"]);
+            if (retryAfterMs >= 0) this.retryAfterMs = retryAfterMs;
+            this.requestCharge = parseFloat(headers["x-ms-request-charge"]) || 0;
+        }
+    }
+
+    /** HTTP status code (e.g. 404 for resource not found, 409 for resource conflicts, 412 for etag mismatches, 429 for request rate too large), if any */
+    public code?: number;
+
+    /** Error code from the response body (e.g. `NotFound`), if any */
+    public errorCode?: string;
+
+    /** Sub status code (`x-ms-substatus` header), if any */
+    public substatus?: number;
+
+    /** Activity ID of the request (`x-ms-activity-id` header), if any */
+    public activityId?: string;
+
+    /** Delay (ms) after which the request may be retried (`x-ms-retry-after-ms` header), if any */
+    public retryAfterMs?: number;
+
+    /** Request charge (RUs) of the failed request, if any */
+    public requestCharge = 0;
+}
+
+/** Error that is thrown when a resource does not exist (status code 404) */
+export class NotFoundError extends DocumentDBError {
+    constructor(message = "Resource not found", code = 404,
+        headers?: { [name: string]: string }) {
+        super(message, code, headers);
+        this.name = "NotFoundError";
+    }
+}
+
+/** Error that is thrown when a resource with the same ID already exists (status code 409) */
+export class ConflictError extends DocumentDBError {
+    constructor(message = "Resource already exists", code = 409,
+        headers?: { [name: string]: string }) {
+        super(message, code, headers);
+        this.name = "ConflictError";
+    }
+}
+
+/** Error that is thrown when a resource has been changed, i.e. when its etag does not match (status code 412) */
+export class PreconditionFailedError extends DocumentDBError {
+    constructor(message = "Precondition failed", code = 412,
+        headers?: { [name: string]: string }) {
+        super(message, code, headers);
+        this.name = "PreconditionFailedError";
+    }
+}
+
+/** Error that is thrown when the request rate is too large and a request has not been retried (status code 429); see `retryAfterMs` */
+export class ThrottledError extends DocumentDBError {
+    constructor(message = "Request rate is large", code = 429,
+        headers?: { [name: string]: string }) {
+        super(message, code, headers);
+        this.name = "ThrottledError";
+    }
+}
+
+/** Error that is thrown when a request has timed out, either on the client side (see `Client.timeout`) or on the server (status code 408) */
+export class TimeoutError extends DocumentDBError {
+    constructor(message = "Timeout", code = 408,
+        headers?: { [name: string]: string }) {
+        super(message, code, headers);
+        this.name = "TimeoutError";
+    }
+}
+
+/** Error that is thrown when a document is rejected by the validator of a collection (see `Collection.validator`); all validation error messages can be found in the `errors` property */
+export class ValidationError extends Error {
+    /** Create a new error with given validation error messages, for given document */
+    constructor(errors: string[] = [], document?: any) {
+        super("Document is not valid" +
+            (errors.length ? ": " + errors.join("; ") : ""));
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = "ValidationError";
+        this.errors = errors;
+        this.document = document;
+    }
+
+    /** Validation error messages */
+    public errors: string[];
+
+    /** The document that was rejected, if any */
+    public document?: any;
+}
+
+/** @internal Returns an instance of `DocumentDBError` (or one of its subclasses, depending on the status code) for given error returned by the DocumentDB client, or the error itself if it does not represent an error response (e.g. a network error) */
+export function toDocumentDBError(err: any, headers?: { [name: string]: string }) {
+    if (!err || typeof err.code !== "number" || err instanceof DocumentDBError)
+        return err;
+    var body: any;
+    try { body = JSON.parse(err.body) } catch (all) { }
+    var message: string | undefined = body && body.message || err.message;
+    headers = headers || err.headers;
+    var error: DocumentDBError;
+    switch (err.code) {
+        case 404: error = new NotFoundError(message, 404, headers); break;
+        case 408: error = new TimeoutError(message, 408, headers); break;
+        case 409: error = new ConflictError(message, 409, headers); break;
+        case 412: error = new PreconditionFailedError(message, 412, headers); break;
+        case 429: error = new ThrottledError(message, 429, headers); break;
+        default: error = new DocumentDBError(message, err.code, headers);
+    }
+    if (body && typeof body.code === "string") error.errorCode = body.code;
+    return error;
+}
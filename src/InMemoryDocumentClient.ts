@@ -0,0 +1,1321 @@
+import * as _DocumentDB from "./_DocumentDB";
+import { executeQuery, UdfMap } from "./InMemorySql";
+import { getPartitionKeyValue, readBufferAsync } from "./Util";
+
+/** Child resource feeds for each type of resource */
+const CHILD_FEEDS: { [type: string]: string[] } = {
+    "": ["dbs", "offers"],
+    dbs: ["colls", "users"],
+    colls: ["docs", "sprocs", "triggers", "udfs", "conflicts"],
+    docs: ["attachments"],
+    users: ["permissions"]
+};
+
+/** Next resource ID number */
+var _nextRID = 1;
+
+/** Next logical sequence number, for the change feed */
+var _nextLSN = 1;
+
+/** @internal A resource node in the in-memory resource tree */
+interface ResourceNode {
+    type: string;
+    resource: any;
+    parent?: ResourceNode;
+    children: { [feed: string]: ResourceNode[] };
+    /** Logical sequence number of the last change (documents only) */
+    lsn?: number;
+}
+
+/** In-memory implementation of the `DocumentClient` interface, which emulates a DocumentDB account for offline testing; use `Client.createInMemory()` to create a client that uses an instance of this class */
+export class InMemoryDocumentClient implements _DocumentDB.DocumentClient {
+    /** Create a new (empty) in-memory account */
+    constructor(public readonly url = "memory://") {
+        // nothing here
+    }
+
+    /** Default throughput for collections that are created without `offerThroughput` */
+    public defaultOfferThroughput = 400;
+
+    /** Latency (ms) added to every request, defaults to 0 (but callbacks are always invoked asynchronously) */
+    public latency = 0;
+
+    /** Returns a client for the same account that uses given authentication options: either this instance itself (if a master key is given), or a new instance that checks all operations against the permissions for given resource tokens (or permission feed) */
+    public authenticate(auth?: _DocumentDB.AuthenticationOptions): InMemoryDocumentClient {
+        if (!auth || auth.masterKey || !(auth.resourceTokens || auth.permissionFeed))
+            return this;
+        var result: InMemoryDocumentClient = Object.create(this);
+        var tokens = auth.resourceTokens ?
+            Object.keys(auth.resourceTokens).map(k => auth.resourceTokens![k]) :
+            auth.permissionFeed!.map(p => p._token);
+        result._tokens = tokens.filter(t => !!t);
+        return result;
+    }
+
+    /** Remove all resources from this account */
+    public clear() {
+        this._root.children = { dbs: [], offers: [] };
+        Object.keys(this._media).forEach(id => { delete this._media[id] });
+    }
+
+    // --- Databases
+
+    public createDatabase(body: Partial<_DocumentDB.DatabaseResource> & _DocumentDB.Identifiable,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.DatabaseResource>) {
+        this._run(callback, () => this._create(this._root, "dbs", body, options));
+    }
+    public readDatabase(dbLink: string, options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.DatabaseResource>) {
+        this._run(callback, () => this._read(dbLink, options));
+    }
+    public readDatabases(options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.DatabaseResource>("", "dbs", undefined, options);
+    }
+    public queryDatabases(query: _DocumentDB.SqlQuery, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.DatabaseResource>("", "dbs", query, options);
+    }
+    public deleteDatabase(dbLink: string, options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, () => this._delete(dbLink, options));
+    }
+
+    // --- Collections
+
+    public createCollection(dbLink: string,
+        body: Partial<_DocumentDB.CollectionResource> & _DocumentDB.Identifiable,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.CollectionResource>) {
+        this._run(callback, () => {
+            var data: any = Object.assign({
+                indexingPolicy: {
+                    automatic: true, indexingMode: "Consistent",
+                    includedPaths: [{ path: "/*", indexes: [] }],
+                    excludedPaths: []
+                }
+            }, body);
+            var result = this._create(this._resolve(dbLink), "colls", data, options);
+            this._createOffer(result, options && options.offerThroughput);
+            return result;
+        });
+    }
+    public readCollection(collectionLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.CollectionResource>) {
+        this._run(callback, headers => {
+            // indexes are always up to date
+            headers["x-ms-documentdb-collection-index-transformation-progress"] = "100";
+            return this._read(collectionLink, options);
+        });
+    }
+    public readCollections(dbLink: string, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.CollectionResource>(dbLink, "colls", undefined, options);
+    }
+    public readPartitionKeyRanges(collectionLink: string, options?: _DocumentDB.FeedOptions) {
+        // all collections are emulated using a single partition key range
+        return new InMemoryQueryIterator<_DocumentDB.PartitionKeyRangeResource>(() => {
+            var collection = this._resolve(collectionLink, "colls");
+            this._authorize(collection);
+            var rid = collection.resource._rid;
+            return [<_DocumentDB.PartitionKeyRangeResource>{
+                id: "0",
+                _rid: rid,
+                _self: collection.resource._self + "pkranges/" + rid + "/",
+                _etag: collection.resource._etag,
+                _ts: collection.resource._ts,
+                minInclusive: "",
+                maxExclusive: "FF"
+            }];
+        }, (callback, f) => this._run(callback, f), options);
+    }
+    public queryCollections(dbLink: string, query: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.CollectionResource>(dbLink, "colls", query, options);
+    }
+    public replaceCollection(collectionLink: string,
+        body: Partial<_DocumentDB.CollectionResource> & _DocumentDB.Identifiable,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.CollectionResource>) {
+        this._run(callback, () => this._replace(collectionLink, body, options));
+    }
+    public deleteCollection(collectionLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, () => {
+            var node = this._resolve(collectionLink, "colls");
+            this._delete(collectionLink, options);
+            this._root.children.offers = this._root.children.offers
+                .filter(o => o.resource.resource !== node.resource._self);
+        });
+    }
+
+    // --- Documents
+
+    public createDocument(collectionLink: string,
+        body: Partial<_DocumentDB.DocumentResource>,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.DocumentResource>) {
+        this._run(callback, () => {
+            var collection = this._resolve(collectionLink, "colls");
+            return this._withTriggers(collection, "Create", body, options, data =>
+                this._create(collection, "docs", data, options));
+        });
+    }
+    public upsertDocument(collectionLink: string,
+        body: Partial<_DocumentDB.DocumentResource>,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.DocumentResource>) {
+        this._run(callback, () => {
+            var collection = this._resolve(collectionLink, "colls");
+            var exists = body && body.id !== undefined &&
+                this._children(collection, "docs").some(n =>
+                    this._sameId(collection, "docs", n.resource, body));
+            return this._withTriggers(collection, exists ? "Replace" : "Create",
+                body, options, data => this._upsert(collection, "docs", data, options));
+        });
+    }
+    public readDocument(documentLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.DocumentResource>) {
+        this._run(callback, () => this._read(documentLink, options, "docs"));
+    }
+    public readDocuments(collectionLink: string, options?: _DocumentDB.FeedOptions) {
+        if (options && options.a_im === "Incremental feed")
+            return this._changeFeed(collectionLink, options);
+        return this._feed<_DocumentDB.DocumentResource>(collectionLink, "docs", undefined, options);
+    }
+    public queryDocuments(collectionLink: string, query: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions) {
+        return this._feed<any>(collectionLink, "docs", query, options);
+    }
+    public replaceDocument(documentLink: string,
+        document: Partial<_DocumentDB.DocumentResource> & _DocumentDB.Identifiable,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.DocumentResource>) {
+        this._run(callback, () => {
+            var collection = this._resolve(documentLink, "docs", options).parent!;
+            return this._withTriggers(collection, "Replace", document, options, data =>
+                this._replace(documentLink, data, options, "docs"));
+        });
+    }
+    public deleteDocument(documentLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, () => {
+            var node = this._resolve(documentLink, "docs", options);
+            return this._withTriggers(node.parent!, "Delete", node.resource, options, () =>
+                this._delete(documentLink, options, "docs"));
+        });
+    }
+
+    // --- Users and permissions
+
+    public createUser(dbLink: string,
+        body: Partial<_DocumentDB.UserResource> & _DocumentDB.Identifiable,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.UserResource>) {
+        this._run(callback, () => this._create(this._resolve(dbLink, "dbs"), "users", body, options));
+    }
+    public upsertUser(dbLink: string,
+        body: Partial<_DocumentDB.UserResource> & _DocumentDB.Identifiable,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.UserResource>) {
+        this._run(callback, () => this._upsert(this._resolve(dbLink, "dbs"), "users", body, options));
+    }
+    public readUser(userLink: string, options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.UserResource>) {
+        this._run(callback, () => this._read(userLink, options, "users"));
+    }
+    public readUsers(dbLink: string, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.UserResource>(dbLink, "users", undefined, options);
+    }
+    public queryUsers(dbLink: string, query: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.UserResource>(dbLink, "users", query, options);
+    }
+    public replaceUser(userLink: string, user: _DocumentDB.UserResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.UserResource>) {
+        this._run(callback, () => this._replace(userLink, user, options, "users"));
+    }
+    public deleteUser(userLink: string, options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, () => this._delete(userLink, options, "users"));
+    }
+    public createPermission(userLink: string, body: Partial<_DocumentDB.PermissionResource>,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.PermissionResource>) {
+        this._run(callback, () => {
+            var user = this._resolve(userLink, "users");
+            return this._create(user, "permissions", this._permissionBody(user, body), options);
+        });
+    }
+    public upsertPermission(userLink: string,
+        body: Partial<_DocumentDB.PermissionResource> & _DocumentDB.Identifiable,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.PermissionResource>) {
+        this._run(callback, () => {
+            var user = this._resolve(userLink, "users");
+            return this._upsert(user, "permissions", this._permissionBody(user, body), options);
+        });
+    }
+    public readPermission(permissionLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.PermissionResource>) {
+        this._run(callback, () => this._read(permissionLink, options, "permissions"));
+    }
+    public readPermissions(userLink: string, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.PermissionResource>(userLink, "permissions", undefined, options);
+    }
+    public queryPermissions(userLink: string, query: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.PermissionResource>(userLink, "permissions", query, options);
+    }
+    public replacePermission(permissionLink: string,
+        permission: _DocumentDB.PermissionResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.PermissionResource>) {
+        this._run(callback, () => {
+            var user = this._resolve(permissionLink, "permissions").parent!;
+            return this._replace(permissionLink,
+                this._permissionBody(user, permission), options, "permissions");
+        });
+    }
+    public deletePermission(permissionLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, () => this._delete(permissionLink, options, "permissions"));
+    }
+
+    // --- Stored procedures
+
+    public createStoredProcedure(collectionLink: string,
+        sproc: _DocumentDB.WriteSprocResource & _DocumentDB.Identifiable,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.SprocResource>) {
+        this._run(callback, () => this._create(this._resolve(collectionLink, "colls"),
+            "sprocs", this._scriptBody(sproc), options));
+    }
+    public upsertStoredProcedure(collectionLink: string,
+        sproc: Partial<_DocumentDB.SprocResource> & _DocumentDB.Identifiable,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.SprocResource>) {
+        this._run(callback, () => this._upsert(this._resolve(collectionLink, "colls"),
+            "sprocs", this._scriptBody(sproc), options));
+    }
+    public readStoredProcedure(sprocLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.SprocResource>) {
+        this._run(callback, () => this._read(sprocLink, options, "sprocs"));
+    }
+    public readStoredProcedures(collectionLink: string, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.SprocResource>(collectionLink, "sprocs", undefined, options);
+    }
+    public queryStoredProcedures(collectionLink: string, query: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.SprocResource>(collectionLink, "sprocs", query, options);
+    }
+    public replaceStoredProcedure(sprocLink: string, sproc: _DocumentDB.SprocResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.SprocResource>) {
+        this._run(callback, () => this._replace(sprocLink,
+            this._scriptBody(sproc), options, "sprocs"));
+    }
+    public deleteStoredProcedure(sprocLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, () => this._delete(sprocLink, options, "sprocs"));
+    }
+    public executeStoredProcedure(sprocLink: string, params: any[],
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, headers => {
+            var node = this._resolve(sprocLink, "sprocs");
+            this._authorize(node, true);
+            var response = this._runScript(node.parent!, node.resource.body,
+                params || [], undefined, options, headers);
+            return response.getBody();
+        });
+    }
+
+    // --- Triggers and user defined functions
+
+    public createTrigger(collectionLink: string, trigger: _DocumentDB.WriteTriggerResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.TriggerResource>) {
+        this._run(callback, () => this._create(this._resolve(collectionLink, "colls"),
+            "triggers", this._triggerBody(trigger), options));
+    }
+    public upsertTrigger(collectionLink: string, trigger: _DocumentDB.WriteTriggerResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.TriggerResource>) {
+        this._run(callback, () => this._upsert(this._resolve(collectionLink, "colls"),
+            "triggers", this._triggerBody(trigger), options));
+    }
+    public readTrigger(triggerLink: string, options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.TriggerResource>) {
+        this._run(callback, () => this._read(triggerLink, options, "triggers"));
+    }
+    public readTriggers(collectionLink: string, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.TriggerResource>(collectionLink, "triggers", undefined, options);
+    }
+    public queryTriggers(collectionLink: string, query: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.TriggerResource>(collectionLink, "triggers", query, options);
+    }
+    public replaceTrigger(triggerLink: string, trigger: _DocumentDB.WriteTriggerResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.TriggerResource>) {
+        this._run(callback, () => this._replace(triggerLink,
+            this._triggerBody(trigger), options, "triggers"));
+    }
+    public deleteTrigger(triggerLink: string, options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, () => this._delete(triggerLink, options, "triggers"));
+    }
+    public createUserDefinedFunction(collectionLink: string, udf: _DocumentDB.WriteUdfResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.UdfResource>) {
+        this._run(callback, () => this._create(this._resolve(collectionLink, "colls"),
+            "udfs", this._scriptBody(udf), options));
+    }
+    public upsertUserDefinedFunction(collectionLink: string, udf: _DocumentDB.WriteUdfResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.UdfResource>) {
+        this._run(callback, () => this._upsert(this._resolve(collectionLink, "colls"),
+            "udfs", this._scriptBody(udf), options));
+    }
+    public readUserDefinedFunction(udfLink: string, options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.UdfResource>) {
+        this._run(callback, () => this._read(udfLink, options, "udfs"));
+    }
+    public readUserDefinedFunctions(collectionLink: string, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.UdfResource>(collectionLink, "udfs", undefined, options);
+    }
+    public queryUserDefinedFunctions(collectionLink: string, query: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.UdfResource>(collectionLink, "udfs", query, options);
+    }
+    public replaceUserDefinedFunction(udfLink: string, udf: _DocumentDB.WriteUdfResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.UdfResource>) {
+        this._run(callback, () => this._replace(udfLink,
+            this._scriptBody(udf), options, "udfs"));
+    }
+    public deleteUserDefinedFunction(udfLink: string, options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, () => this._delete(udfLink, options, "udfs"));
+    }
+
+    // --- Attachments and media
+
+    public createAttachment(documentLink: string,
+        body: _DocumentDB.WriteAttachmentResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.AttachmentResource>) {
+        this._run(callback, () => this._create(this._resolve(documentLink, "docs", options),
+            "attachments", this._attachmentBody(body), options));
+    }
+    public createAttachmentAndUploadMedia(documentLink: string,
+        readableStream: _DocumentDB.MediaBody,
+        options: _DocumentDB.MediaOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.AttachmentResource>) {
+        this._upload(readableStream, callback, data => {
+            var doc = this._resolve(documentLink, "docs", options);
+            return this._create(doc, "attachments",
+                this._storeMedia(data, options), options);
+        });
+    }
+    public upsertAttachment(documentLink: string,
+        body: _DocumentDB.WriteAttachmentResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.AttachmentResource>) {
+        this._run(callback, () => {
+            var doc = this._resolve(documentLink, "docs", options);
+            return this._upsertAttachment(doc, this._attachmentBody(body), options);
+        });
+    }
+    public upsertAttachmentAndUploadMedia(documentLink: string,
+        readableStream: _DocumentDB.MediaBody,
+        options: _DocumentDB.MediaOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.AttachmentResource>) {
+        this._upload(readableStream, callback, data => {
+            var doc = this._resolve(documentLink, "docs", options);
+            return this._upsertAttachment(doc,
+                this._storeMedia(data, options), options);
+        });
+    }
+    public readAttachment(attachmentLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.AttachmentResource>) {
+        this._run(callback, () => this._read(attachmentLink, options, "attachments"));
+    }
+    public readAttachments(documentLink: string, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.AttachmentResource>(documentLink, "attachments", undefined, options);
+    }
+    public queryAttachments(documentLink: string, query: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.AttachmentResource>(documentLink, "attachments", query, options);
+    }
+    public replaceAttachment(attachmentLink: string,
+        attachment: _DocumentDB.WriteAttachmentResource,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.AttachmentResource>) {
+        this._run(callback, () => {
+            var node = this._resolve(attachmentLink, "attachments", options);
+            var previous = node.resource.media;
+            var result = this._replace(attachmentLink,
+                this._attachmentBody(attachment), options, "attachments");
+            if (result.media !== previous) this._dropMedia(previous);
+            return result;
+        });
+    }
+    public deleteAttachment(attachmentLink: string,
+        options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<any>) {
+        this._run(callback, () => {
+            var node = this._resolve(attachmentLink, "attachments", options);
+            this._delete(attachmentLink, options, "attachments");
+            this._dropMedia(node.resource.media);
+        });
+    }
+    public readMedia(mediaLink: string,
+        callback: (error: _DocumentDB.ClientError, result: Buffer | NodeJS.ReadableStream,
+            responseHeaders: {}) => void) {
+        // (not using _run, since media should not be cloned as JSON)
+        setTimeout(() => {
+            var headers = this._headers(1);
+            try {
+                var media = this._findMedia(mediaLink);
+                headers["content-type"] = media.contentType;
+                callback(<any>undefined, Buffer.from(media.data), headers);
+            }
+            catch (err) {
+                callback(err, <any>undefined, headers);
+            }
+        }, this.latency);
+    }
+    public updateMedia(mediaLink: string, readableStream: _DocumentDB.MediaBody,
+        options: _DocumentDB.MediaOptions | undefined,
+        callback: (error: _DocumentDB.ClientError, result: any, responseHeaders: {}) => void) {
+        this._upload(readableStream, callback, data => {
+            var media = this._findMedia(mediaLink, true);
+            media.data = data;
+            if (options && options.contentType) media.contentType = options.contentType;
+        });
+    }
+
+    // --- Offers
+
+    public readOffer(offerLink: string, callback: _DocumentDB.Callback<_DocumentDB.OfferResource>) {
+        this._run(callback, () => this._read(offerLink, undefined, "offers"));
+    }
+    public readOffers(options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.OfferResource>("", "offers", undefined, options);
+    }
+    public queryOffers(query: _DocumentDB.SqlQuery, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.OfferResource>("", "offers", query, options);
+    }
+    public replaceOffer(offerLink: string, offer: _DocumentDB.OfferResource,
+        callback: _DocumentDB.Callback<_DocumentDB.OfferResource>) {
+        this._run(callback, () => this._replace(offerLink, offer, undefined, "offers"));
+    }
+
+    // --- Conflicts (never populated)
+
+    public readConflict(conflictLink: string, options: _DocumentDB.RequestOptions | undefined,
+        callback: _DocumentDB.Callback<_DocumentDB.Resource>) {
+        this._run(callback, () => this._read(conflictLink, options, "conflicts"));
+    }
+    public readConflicts(collectionLink: string, options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.Resource>(collectionLink, "conflicts", undefined, options);
+    }
+    public queryConflicts(collectionLink: string, query: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions) {
+        return this._feed<_DocumentDB.Resource>(collectionLink, "conflicts", query, options);
+    }
+
+    // --- Account
+
+    public getDatabaseAccount(callback: (error: _DocumentDB.ClientError,
+        databaseAccount: _DocumentDB.DatabaseAccount) => void) {
+        this._run(<any>callback, () => ({
+            DatabasesLink: "/dbs/",
+            MediaLink: "/media/",
+            MaxMediaStorageUsageInMB: 0,
+            CurrentMediaStorageUsageInMB: 0,
+            ConsumedDocumentStorageInMB: 0,
+            ReservedDocumentStorageInMB: 0,
+            ProvisionedDocumentStorageInMB: 0,
+            ConsistencyPolicy: {
+                defaultConsistencyLevel: "Strong",
+                maxStalenessPrefix: 100,
+                maxStalenessIntervalInSeconds: 5
+            },
+            WritableLocations: [],
+            ReadableLocations: []
+        }));
+    }
+    public getReadEndpoint(callback: (url: string) => void) {
+        setImmediate(() => callback(this.url));
+    }
+    public getWriteEndpoint(callback: (url: string) => void) {
+        setImmediate(() => callback(this.url));
+    }
+
+    // --- Not (yet) supported by the in-memory client
+
+    public deleteConflict = this._notSupported;
+
+    /** @internal Placeholder for methods that are not implemented */
+    private _notSupported(): any {
+        throw new Error("Not supported by the in-memory client");
+    }
+
+    // --- Implementation
+
+    /** @internal Run given function asynchronously, and pass the result or error to given callback */
+    private _run<T>(callback: (error: any, result: T, headers: any) => void,
+        f: (headers: { [name: string]: string }) => T, charge = 1) {
+        setTimeout(() => {
+            var result: any, headers = this._headers(charge);
+            try {
+                result = f(headers);
+            }
+            catch (err) {
+                if (typeof err.code !== "number")
+                    err = this._error(500, "InternalServerError", String(err.message || err));
+                callback(err, <any>undefined, headers);
+                return;
+            }
+            if (result && result._etag) headers["etag"] = result._etag;
+            headers["x-ms-session-token"] = "0:" + (_nextLSN - 1);
+            callback(<any>undefined, clone(result), headers);
+        }, this.latency);
+    }
+
+    /** @internal Read all data from given media body, then run given function asynchronously and pass the result or error to given callback */
+    private _upload<T>(body: _DocumentDB.MediaBody,
+        callback: (error: any, result: T, headers: any) => void,
+        f: (data: Buffer) => T) {
+        readBufferAsync(body).then(
+            data => this._run(callback, () => f(data)),
+            err => callback(this._error(400, "BadRequest",
+                "Invalid media: " + String(err && err.message || err)),
+                <any>undefined, this._headers(0)));
+    }
+
+    /** @internal Returns given attachment resource body, after checking its properties */
+    private _attachmentBody(body: _DocumentDB.WriteAttachmentResource) {
+        if (!body || typeof body.contentType !== "string" ||
+            typeof body.media !== "string")
+            throw this._error(400, "BadRequest", "Invalid attachment");
+        return body;
+    }
+
+    /** @internal Store given media data; returns a new attachment resource body that refers to the stored media */
+    private _storeMedia(data: Buffer, options?: _DocumentDB.MediaOptions) {
+        var id = newRID();
+        var contentType = options && options.contentType || "application/octet-stream";
+        this._media[id] = { data, contentType };
+        return {
+            id: options && options.slug || newGuid(),
+            contentType,
+            media: "/media/" + id
+        };
+    }
+
+    /** @internal Create or replace an attachment, removing replaced media if needed */
+    private _upsertAttachment(doc: ResourceNode, body: any,
+        options?: _DocumentDB.RequestOptions) {
+        var existing = this._children(doc, "attachments")
+            .filter(n => n.resource.id === body.id)[0];
+        var previous = existing && existing.resource.media;
+        var result = this._upsert(doc, "attachments", body, options);
+        if (previous && previous !== result.media) this._dropMedia(previous);
+        return result;
+    }
+
+    /** @internal Returns the stored media for given media link, after checking that the attachment that refers to it is accessible */
+    private _findMedia(mediaLink: string, write?: boolean) {
+        var id = String(mediaLink || "").replace(/^\/*media\//, "").replace(/\/+$/, "");
+        var media = this._media[id];
+        var found: ResourceNode | undefined;
+        this._root.children.dbs.forEach(db => db.children.colls.forEach(coll =>
+            coll.children.docs.forEach(doc => doc.children.attachments.forEach(a => {
+                if (a.resource.media === "/media/" + id) found = a;
+            }))));
+        if (!media || !found) throw this._error(404, "NotFound",
+            "Resource Not Found: " + mediaLink);
+        this._authorize(found, write);
+        return media;
+    }
+
+    /** @internal Remove stored media for given media link, if any */
+    private _dropMedia(mediaLink?: string) {
+        var match = /^\/media\/([^\/]+)$/.exec(mediaLink || "");
+        if (match) delete this._media[match[1]];
+    }
+
+    /** @internal Returns a set of response headers */
+    private _headers(charge: number): { [name: string]: string } {
+        return {
+            "x-ms-request-charge": String(charge),
+            "x-ms-activity-id": newGuid()
+        };
+    }
+
+    /** @internal Returns a `ClientError` object for given status code */
+    private _error(code: number, name: string, message: string): _DocumentDB.ClientError {
+        return { code, body: JSON.stringify({ code: name, message }) };
+    }
+
+    /** @internal Find the resource node for given link (either name based, e.g. `dbs/a/colls/b`, or using resource IDs as in `_self` links); documents in partitioned collections are only found if the partition key value in given options matches */
+    private _resolve(link: string, expectType?: string,
+        options?: _DocumentDB.RequestOptions): ResourceNode {
+        var parts = String(link || "").replace(/^\/+|\/+$/g, "").split("/");
+        if (parts.length === 1 && !parts[0]) parts = [];
+        if (parts.length % 2) throw this._error(400, "BadRequest", "Invalid link: " + link);
+        var node = this._root;
+        for (var i = 0; i < parts.length; i += 2) {
+            var feed = node.children[parts[i]];
+            var key = parts[i + 1];
+            try { key = decodeURIComponent(key) } catch (all) { }
+            if (parts[i] === "docs" && this._isPartitioned(node) &&
+                (!options || options.partitionKey === undefined))
+                throw this._error(400, "BadRequest",
+                    "PartitionKey value must be supplied for this operation");
+            var found = feed && feed.filter(n =>
+                (n.resource.id === key || n.resource._rid === key) &&
+                !this._isExpired(n) && this._inPartition(n, options))[0];
+            if (!found) throw this._error(404, "NotFound",
+                "Resource Not Found: " + link);
+            node = found;
+        }
+        if (expectType && node.type !== expectType)
+            throw this._error(400, "BadRequest", "Invalid link: " + link);
+        return node;
+    }
+
+    /** @internal Check that given node (or one of its ancestors) is covered by a permission for one of the resource tokens used by this instance, if any, and that write access is allowed if needed */
+    private _authorize(node: ResourceNode, write?: boolean) {
+        if (!this._tokens || this._inScript) return;
+        var permissions: any[] = [];
+        this._root.children.dbs.forEach(db => db.children.users.forEach(user =>
+            user.children.permissions.forEach(p => {
+                if (this._tokens!.indexOf(p.resource._token) >= 0)
+                    permissions.push(p.resource);
+            })));
+        for (var n: ResourceNode | undefined = node; n; n = n.parent) {
+            var self = n.resource._self;
+            if (permissions.some(p => p.resource === self &&
+                (!write || p.permissionMode === "All")))
+                return;
+        }
+        throw this._error(403, "Forbidden",
+            "Insufficient permissions for this operation");
+    }
+
+    /** @internal Returns true if given collection node represents a partitioned collection */
+    private _isPartitioned(node: ResourceNode) {
+        var def = node.resource.partitionKey;
+        return node.type === "colls" && !!def && !!def.paths && def.paths.length > 0;
+    }
+
+    /** @internal Returns the partition key value for given document node or body (in given collection node) */
+    private _partitionKeyOf(collection: ResourceNode, doc: any) {
+        return getPartitionKeyValue(collection.resource.partitionKey, doc);
+    }
+
+    /** @internal Returns true if given node is not a document in a partitioned collection, or if its partition key value matches the value in given options */
+    private _inPartition(node: ResourceNode, options?: { partitionKey?: {} }) {
+        if (node.type !== "docs" || !this._isPartitioned(node.parent!) ||
+            !options || options.partitionKey === undefined)
+            return true;
+        var value = options.partitionKey;
+        if (Array.isArray(value) && value.length === 1) value = value[0];
+        return JSON.stringify(this._partitionKeyOf(node.parent!, node.resource)) ===
+            JSON.stringify(value);
+    }
+
+    /** @internal Returns true if both resources have the same ID (and partition key value, for documents in partitioned collections) */
+    private _sameId(parent: ResourceNode, feed: string, a: any, b: any) {
+        if (a.id !== b.id) return false;
+        if (feed !== "docs" || !this._isPartitioned(parent)) return true;
+        return JSON.stringify(this._partitionKeyOf(parent, a)) ===
+            JSON.stringify(this._partitionKeyOf(parent, b));
+    }
+
+    /** @internal Returns true if given node represents a document that has expired (TTL) */
+    private _isExpired(node: ResourceNode) {
+        if (node.type !== "docs") return false;
+        var defaultTtl = node.parent!.resource.defaultTtl;
+        if (defaultTtl === undefined) return false;
+        var ttl = node.resource.ttl !== undefined ? node.resource.ttl : defaultTtl;
+        if (ttl === -1) return false;
+        return node.resource._ts + ttl <= Date.now() / 1000;
+    }
+
+    /** @internal Returns all (non-expired) child nodes in given feed */
+    private _children(parent: ResourceNode, feed: string) {
+        if (!parent.children[feed])
+            throw this._error(400, "BadRequest", "Invalid feed: " + feed);
+        return parent.children[feed].filter(n => !this._isExpired(n));
+    }
+
+    /** @internal Validate given resource body, and add system properties */
+    private _prepare(parent: ResourceNode, feed: string, body: any,
+        options?: _DocumentDB.RequestOptions, existing?: ResourceNode) {
+        if (!body || typeof body !== "object")
+            throw this._error(400, "BadRequest", "Invalid resource body");
+        var data = clone(body);
+        if (data.id === undefined || data.id === "") {
+            if (feed !== "docs" || (options && options.disableAutomaticIdGeneration))
+                throw this._error(400, "BadRequest", "Resource ID missing");
+            data.id = newGuid();
+        }
+        if (typeof data.id !== "string" || /[\/\\\?#]/.test(data.id) ||
+            /\s$/.test(data.id) || data.id.length > 255)
+            throw this._error(400, "BadRequest", "Invalid resource ID: " +
+                JSON.stringify(data.id));
+        var rid = existing ? existing.resource._rid : newRID();
+        var self = (parent.resource._self || "") + feed + "/" + rid + "/";
+        data._rid = rid;
+        data._self = self;
+        data._etag = "\"" + newGuid() + "\"";
+        data._ts = Math.floor(Date.now() / 1000);
+        CHILD_FEEDS[feed] && CHILD_FEEDS[feed].forEach(f => {
+            data["_" + f] = f + "/";
+        });
+        return data;
+    }
+
+    /** @internal Check access conditions in given options against given existing resource */
+    private _checkAccess(node: ResourceNode, options?: _DocumentDB.RequestOptions) {
+        var cond = options && options.accessCondition;
+        if (cond && cond.type === "IfMatch" && cond.condition !== node.resource._etag)
+            throw this._error(412, "PreconditionFailed",
+                "One of the specified pre-condition is not met");
+    }
+
+    /** @internal Add a new resource node */
+    private _create(parent: ResourceNode, feed: string, body: any,
+        options?: _DocumentDB.RequestOptions) {
+        this._authorize(parent, true);
+        var data = this._prepare(parent, feed, body, options);
+        var children = this._children(parent, feed);
+        if (children.some(n => this._sameId(parent, feed, n.resource, data)))
+            throw this._error(409, "Conflict",
+                "Resource with specified id or name already exists");
+        parent.children[feed] = children;
+        children.push(this._touch(this._node(feed, data, parent)));
+        return data;
+    }
+
+    /** @internal Create or replace a resource node */
+    private _upsert(parent: ResourceNode, feed: string, body: any,
+        options?: _DocumentDB.RequestOptions) {
+        var existing = body && body.id !== undefined && this._children(parent, feed)
+            .filter(n => this._sameId(parent, feed, n.resource, body))[0];
+        if (!existing) return this._create(parent, feed, body, options);
+        this._authorize(existing, true);
+        this._checkAccess(existing, options);
+        existing.resource = this._prepare(parent, feed, body, options, existing);
+        this._touch(existing);
+        return existing.resource;
+    }
+
+    /** @internal Read a resource */
+    private _read(link: string, options?: _DocumentDB.RequestOptions, expectType?: string) {
+        var node = this._resolve(link, expectType, options);
+        this._authorize(node);
+        return node.resource;
+    }
+
+    /** @internal Replace a resource */
+    private _replace(link: string, body: any, options?: _DocumentDB.RequestOptions,
+        expectType?: string) {
+        var node = this._resolve(link, expectType, options);
+        this._authorize(node, true);
+        this._checkAccess(node, options);
+        if (body && this._children(node.parent!, node.type).some(n => n !== node &&
+            this._sameId(node.parent!, node.type, n.resource, body)))
+            throw this._error(409, "Conflict",
+                "Resource with specified id or name already exists");
+        node.resource = this._prepare(node.parent!, node.type, body, options, node);
+        this._touch(node);
+        return node.resource;
+    }
+
+    /** @internal Delete a resource */
+    private _delete(link: string, options?: _DocumentDB.RequestOptions, expectType?: string) {
+        var node = this._resolve(link, expectType, options);
+        this._authorize(node, true);
+        this._checkAccess(node, options);
+        var parent = node.parent!;
+        parent.children[node.type] = parent.children[node.type].filter(n => n !== node);
+        return <any>undefined;
+    }
+
+    /** @internal Returns a new resource node */
+    private _node(type: string, resource: any, parent?: ResourceNode): ResourceNode {
+        var children: { [feed: string]: ResourceNode[] } = {};
+        (CHILD_FEEDS[type] || []).forEach(f => { children[f] = [] });
+        return { type, resource, parent, children };
+    }
+
+    /** @internal Assign a new logical sequence number to given (document) node, which moves it to the end of the change feed; returns the node itself */
+    private _touch(node: ResourceNode) {
+        if (node.type === "docs") node.lsn = _nextLSN++;
+        return node;
+    }
+
+    /** @internal Returns a query iterator for the change feed of given collection, i.e. all documents that have been created or updated after the position given by the `IfNoneMatch` access condition in given options (an etag returned by a previous read, or `*` to read changes from now on), in order of modification; the etag for the position after the results that have been read is returned in the `etag` response header */
+    private _changeFeed(collectionLink: string, options: _DocumentDB.FeedOptions) {
+        var cond = options.accessCondition;
+        var rangeId = options.initialHeaders &&
+            options.initialHeaders["x-ms-documentdb-partitionkeyrangeid"];
+        var after = 0, last = 0;
+        return new InMemoryQueryIterator<any>(() => {
+            var collection = this._resolve(collectionLink, "colls");
+            this._authorize(collection);
+            if (rangeId !== undefined && rangeId !== "0")
+                throw this._error(404, "NotFound", "Partition key range not found");
+            last = _nextLSN - 1;
+            if (cond && cond.type === "IfNoneMatch")
+                after = cond.condition === "*" ? last :
+                    (parseInt(cond.condition.replace(/"/g, "")) || 0);
+            return this._children(collection, "docs")
+                .filter(n => n.lsn! > after)
+                .sort((a, b) => a.lsn! - b.lsn!)
+                .map(n => Object.assign(clone(n.resource), { _lsn: n.lsn }));
+        }, (callback, f) => this._run(callback, f), options, (results, fetched) => ({
+            etag: "\"" + (fetched >= results.length ? last :
+                fetched > 0 ? results[fetched - 1]._lsn : after) + "\""
+        }));
+    }
+
+    /** @internal Returns a query iterator for all resources in given feed, optionally filtered using given query */
+    private _feed<T>(parentLink: string, feed: string, query?: _DocumentDB.SqlQuery,
+        options?: _DocumentDB.FeedOptions): _DocumentDB.QueryIterator<T> {
+        return new InMemoryQueryIterator<T>(() => {
+            var parent = this._resolve(parentLink, undefined, options);
+            this._authorize(parent);
+            var resources = this._children(parent, feed)
+                .filter(n => this._inPartition(n, options))
+                .map(n => n.resource);
+            if (query === undefined) return resources;
+            if (feed === "docs" && this._isPartitioned(parent) &&
+                (!options || options.partitionKey === undefined) &&
+                !(options && options.enableCrossPartitionQuery))
+                throw this._error(400, "BadRequest",
+                    "Cross partition query is required but disabled");
+            var udfs: UdfMap = {};
+            if (feed === "docs") {
+                this._children(parent, "udfs").forEach(n => {
+                    udfs[n.resource.id] = this._compile(n.resource.body);
+                });
+            }
+            try {
+                return executeQuery(query, resources, udfs);
+            }
+            catch (err) {
+                if (typeof err.code === "number") throw err;
+                throw this._error(400, "BadRequest", String(err && err.message || err));
+            }
+        }, (callback, f) => this._run(callback, f), options);
+    }
+
+    /** @internal Create an offer for given collection */
+    private _createOffer(collection: _DocumentDB.CollectionResource, throughput?: number) {
+        var rid = newRID();
+        var offer: Partial<_DocumentDB.OfferResource> = {
+            id: rid,
+            _rid: rid,
+            _self: "offers/" + rid + "/",
+            _etag: "\"" + newGuid() + "\"",
+            _ts: Math.floor(Date.now() / 1000),
+            offerVersion: "V2",
+            offerType: "Invalid",
+            content: { offerThroughput: throughput || this.defaultOfferThroughput },
+            offerResourceId: collection._rid,
+            resource: collection._self
+        };
+        this._root.children.offers.push(this._node("offers", offer, this._root));
+    }
+
+    /** @internal Run given server-side script (stored procedure or trigger) for given collection node; all changes are rolled back if the script throws an error; returns the script response object */
+    private _runScript(collection: ResourceNode, body: string, params: any[],
+        request: ScriptRequest | undefined, options?: _DocumentDB.RequestOptions,
+        headers?: { [name: string]: string }, responseBody?: any) {
+        var log: string[] = [];
+        var response = {
+            getBody: () => responseBody,
+            setBody: (value: any) => { responseBody = value }
+        };
+        var partitionKey = options && options.partitionKey;
+        if (this._isPartitioned(collection) && partitionKey === undefined)
+            throw this._error(400, "BadRequest",
+                "PartitionKey value must be supplied for this operation");
+        var context = {
+            getCollection: () => this._scriptCollection(collection, partitionKey),
+            getRequest: () => request,
+            getResponse: () => response
+        };
+        var scriptConsole = {
+            log: (...args: any[]) => {
+                log.push(args.map(a => typeof a === "string" ?
+                    a : JSON.stringify(a)).join(" "));
+            }
+        };
+
+        // keep a snapshot of all documents to roll back if needed
+        // (scripts run with full access to the collection)
+        var rollback = this._snapshot(collection);
+        var inScript = this._inScript;
+        try {
+            this._inScript = true;
+            var script = new Function("getContext", "console", "params",
+                "return (" + body + ").apply(undefined, params);");
+            script(() => context, scriptConsole, clone(params));
+        }
+        catch (err) {
+            rollback();
+            if (typeof err.code === "number") throw err;
+            throw this._error(400, "BadRequest",
+                "Script error: " + String(err && err.message || err));
+        }
+        finally {
+            this._inScript = inScript;
+        }
+        if (headers && options && options.enableScriptLogging)
+            headers["x-ms-documentdb-script-log-results"] =
+                encodeURIComponent(log.join("\n"));
+        return response;
+    }
+
+    /** @internal Returns a function that restores all documents in given collection node to their current state */
+    private _snapshot(collection: ResourceNode) {
+        var saved = collection.children.docs.map(n => ({ n, r: n.resource, l: n.lsn }));
+        return () => {
+            collection.children.docs = saved.map(s => {
+                s.n.resource = s.r;
+                s.n.lsn = s.l;
+                return s.n;
+            });
+        };
+    }
+
+    /** @internal Run given document operation, along with the pre- and post-triggers specified in given options; the operation is rolled back if a post-trigger fails */
+    private _withTriggers(collection: ResourceNode, operation: string, body: any,
+        options: _DocumentDB.RequestOptions | undefined, f: (body: any) => any) {
+        var pre = this._triggers(collection, "Pre", operation,
+            options && options.preTriggerInclude);
+        var post = this._triggers(collection, "Post", operation,
+            options && options.postTriggerInclude);
+        if (!pre.length && !post.length) return f(body);
+        var rollback = this._snapshot(collection);
+        body = clone(body);
+        var request: ScriptRequest = {
+            getBody: () => body,
+            setBody: (value: any) => { body = value },
+            getValue: () => body,
+            setValue: (value: any) => { body = value },
+            getOperationType: () => operation
+        };
+        var scriptOptions = this._isPartitioned(collection) ?
+            Object.assign({ partitionKey: this._partitionKeyOf(collection, body) },
+                options) : options;
+        pre.forEach(t => this._runScript(collection, t.body, [], request,
+            scriptOptions));
+        var result = f(body);
+        try {
+            post.forEach(t => {
+                result = this._runScript(collection, t.body, [], request,
+                    scriptOptions, undefined, result).getBody();
+            });
+        }
+        catch (err) {
+            rollback();
+            throw err;
+        }
+        return result;
+    }
+
+    /** @internal Returns the trigger resources with given IDs, checking their type and operation */
+    private _triggers(collection: ResourceNode, type: string, operation: string,
+        ids?: string | string[]): _DocumentDB.TriggerResource[] {
+        if (ids === undefined || ids === "") return [];
+        return (Array.isArray(ids) ? ids : [ids]).map(id => {
+            var trigger = this._children(collection, "triggers")
+                .filter(n => n.resource.id === id)[0];
+            if (!trigger) throw this._error(404, "NotFound", "Trigger not found: " + id);
+            var resource: _DocumentDB.TriggerResource = trigger.resource;
+            if (resource.triggerType !== type ||
+                resource.triggerOperation !== "All" &&
+                resource.triggerOperation !== operation)
+                throw this._error(400, "BadRequest", "Trigger " + id +
+                    " cannot be used as a " + type + "-trigger for " + operation);
+            return resource;
+        });
+    }
+
+    /** @internal Returns a function for given user defined function script */
+    private _compile(body: string): Function {
+        try {
+            return new Function("return (" + body + ");")();
+        }
+        catch (err) {
+            throw this._error(400, "BadRequest",
+                "Script error: " + String(err && err.message || err));
+        }
+    }
+
+    /** @internal Returns a collection object that can be used by server-side scripts */
+    private _scriptCollection(collection: ResourceNode, partitionKey?: {}) {
+        let call = (f: () => any, callback?: Function) => {
+            var result: any;
+            try {
+                result = clone(f());
+            }
+            catch (err) {
+                if (!callback) throw err;
+                callback(err, undefined, {});
+                return true;
+            }
+            callback && callback(undefined, result, {});
+            return true;
+        };
+        let args = (options: any, callback: any) =>
+            typeof options === "function" ? [undefined, options] : [options, callback];
+        let checkLink = (link: string) => {
+            if (this._resolve(link, "colls") !== collection)
+                throw this._error(400, "BadRequest", "Invalid collection link");
+        };
+        let scriptOptions = (options?: any) =>
+            this._isPartitioned(collection) ?
+                Object.assign({}, options, { partitionKey }) : options;
+        let documents = () => this._children(collection, "docs")
+            .filter(n => this._inPartition(n, { partitionKey }))
+            .map(n => n.resource);
+        return {
+            getSelfLink: () => collection.resource._self,
+            createDocument: (link: string, doc: any, options?: any, callback?: any) => {
+                [options, callback] = args(options, callback);
+                return call(() => (checkLink(link),
+                    this._create(collection, "docs", doc, scriptOptions(options))), callback);
+            },
+            upsertDocument: (link: string, doc: any, options?: any, callback?: any) => {
+                [options, callback] = args(options, callback);
+                return call(() => (checkLink(link),
+                    this._upsert(collection, "docs", doc, scriptOptions(options))), callback);
+            },
+            replaceDocument: (link: string, doc: any, options?: any, callback?: any) => {
+                [options, callback] = args(options, callback);
+                return call(() => this._replace(link, doc,
+                    scriptOptions(options), "docs"), callback);
+            },
+            readDocument: (link: string, options?: any, callback?: any) => {
+                [options, callback] = args(options, callback);
+                return call(() => this._read(link,
+                    scriptOptions(options), "docs"), callback);
+            },
+            deleteDocument: (link: string, options?: any, callback?: any) => {
+                [options, callback] = args(options, callback);
+                return call(() => this._delete(link,
+                    scriptOptions(options), "docs"), callback);
+            },
+            readDocuments: (link: string, options?: any, callback?: any) => {
+                [options, callback] = args(options, callback);
+                return call(() => (checkLink(link), documents()), callback);
+            },
+            queryDocuments: (link: string, query: _DocumentDB.SqlQuery,
+                options?: any, callback?: any) => {
+                [options, callback] = args(options, callback);
+                return call(() => (checkLink(link),
+                    executeQuery(query, documents())), callback);
+            }
+        };
+    }
+
+    /** @internal Returns a trigger body with the script converted to a string */
+    private _triggerBody(body: any) {
+        var data = this._scriptBody(body);
+        if (data.triggerType !== "Pre" && data.triggerType !== "Post")
+            throw this._error(400, "BadRequest", "Invalid trigger type");
+        if (["All", "Create", "Replace", "Delete"].indexOf(data.triggerOperation) < 0)
+            throw this._error(400, "BadRequest", "Invalid trigger operation");
+        return data;
+    }
+
+    /** @internal Returns a permission body with the resource link normalized to a `_self` link, and a resource token that is unique for given user node and resource */
+    private _permissionBody(user: ResourceNode, body: Partial<_DocumentDB.PermissionResource>) {
+        var data: any = Object.assign({}, body);
+        if (data.permissionMode !== "Read" && data.permissionMode !== "All")
+            throw this._error(400, "BadRequest", "Invalid permission mode");
+        data.resource = this._resolve(data.resource).resource._self;
+        data._token = "type=resource&ver=1&sig=" +
+            Buffer.from(user.resource._rid + ":" + data.resource).toString("base64");
+        return data;
+    }
+
+    /** @internal Returns a stored procedure, trigger, or UDF body with the script converted to a string */
+    private _scriptBody(body: any) {
+        var data: any = Object.assign({}, body);
+        if (typeof data.serverScript === "function") {
+            data.body = data.serverScript.toString();
+            delete data.serverScript;
+        }
+        if (typeof data.body !== "string")
+            throw this._error(400, "BadRequest", "Script body missing");
+        return data;
+    }
+
+    /** @internal The root of the resource tree */
+    private _root = this._node("", { _self: "" });
+
+    /** @internal Uploaded media, by ID (shared with instances returned by `authenticate`) */
+    private _media: { [id: string]: { data: Buffer, contentType: string } } = {};
+
+    /** @internal Resource tokens used for authorization, if any (undefined for master key access) */
+    private _tokens?: string[];
+
+    /** @internal True while a server-side script is running (i.e. skip authorization) */
+    private _inScript?: boolean;
+}
+
+/** @internal Query iterator implementation for the in-memory client, results are evaluated on the first request and then served in pages of `maxItemCount` items */
+class InMemoryQueryIterator<T> implements _DocumentDB.QueryIterator<T> {
+    constructor(private _fetch: () => T[],
+        private _run: (callback: (error: any, result: any, headers: any) => void,
+            f: (headers: any) => any) => void,
+        private _options: _DocumentDB.FeedOptions = {},
+        private _pageHeaders?: (results: T[], fetched: number) => { [name: string]: string }) {
+        this.reset();
+    }
+
+    public current(callback: (error: _DocumentDB.ClientError, element: T) => void) {
+        this._ensure(callback, () => {
+            if (this._index >= this._fetched) this._nextPage();
+            return this._results![this._index];
+        });
+    }
+
+    public executeNext(callback: (error: _DocumentDB.ClientError, list: T[],
+        responseHeaders?: { [name: string]: string }) => void) {
+        this._ensure(callback, () => {
+            if (this._index >= this._fetched) this._nextPage();
+            var list = this._results!.slice(this._index, this._fetched);
+            this._index = this._fetched;
+            return list;
+        });
+    }
+
+    public forEach(callback: (error: _DocumentDB.ClientError, element: T | undefined) => void) {
+        this.reset();
+        var next = () => {
+            this.nextItem((err, item) => {
+                if (err) return callback(err, undefined);
+                if ((<any>callback)(undefined, item) === false) return;
+                if (item !== undefined) setImmediate(next);
+            });
+        };
+        next();
+    }
+
+    public nextItem(callback: (error: _DocumentDB.ClientError, element: T) => void) {
+        this._ensure(callback, () => {
+            if (this._index >= this._fetched) this._nextPage();
+            return this._index < this._fetched ?
+                this._results![this._index++] : undefined;
+        });
+    }
+
+    public reset() {
+        this._results = undefined;
+        this._index = this._fetched = this._start;
+    }
+
+    public toArray(callback: (error: _DocumentDB.ClientError, list: T[]) => void) {
+        this.reset();
+        this._ensure(callback, () => {
+            var list = this._results!.slice(this._index);
+            do this._nextPage();
+            while (this._fetched < this._results!.length);
+            this._index = this._fetched;
+            return list;
+        });
+    }
+
+    /** Returns true if there may be more results to read */
+    public hasMoreResults() {
+        return !this._results || this._index < this._results.length;
+    }
+
+    /** Load the full result set if needed, then call given function asynchronously and pass its result to the callback; the request charge is based on the number of pages fetched (i.e. zero if results were already fetched) */
+    private _ensure(callback: (error: any, result: any, headers?: any) => void,
+        f: () => any) {
+        var pages = this._pages;
+        this._run((err, result, headers) => {
+            if (!err && this._results && this._fetched < this._results.length)
+                headers["x-ms-continuation"] = JSON.stringify({ offset: this._fetched });
+            if (!err && this._results && this._pageHeaders)
+                Object.assign(headers, this._pageHeaders(this._results, this._fetched));
+            if (!err) headers["x-ms-request-charge"] = String(this._pages - pages);
+            callback(err, result, headers);
+        }, () => {
+            if (!this._results) this._results = this._fetch();
+            return f();
+        });
+    }
+
+    /** Advance to the next page of results */
+    private _nextPage() {
+        var n = this._options.maxItemCount;
+        if (!n || n < 0) n = 100;
+        this._fetched = Math.min(this._fetched + n, this._results!.length);
+        this._pages++;
+    }
+
+    /** Start offset, given by the continuation token in the feed options */
+    private get _start() {
+        if (!this._options.continuation) return 0;
+        try { return JSON.parse(this._options.continuation).offset || 0 }
+        catch (all) { return 0 }
+    }
+
+    private _results?: T[];
+    private _index = 0;
+    private _fetched = 0;
+    private _pages = 0;
+}
+
+/** @internal Request object available to server-side scripts (triggers) */
+interface ScriptRequest {
+    getBody(): any;
+    setBody(value: any): void;
+    getValue(): any;
+    setValue(value: any): void;
+    getOperationType(): string;
+}
+
+/** @internal Returns a deep copy of given JSON value */
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** @internal Returns a new random GUID */
+function newGuid() {
+    return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, c => {
+        var r = Math.random() * 16 | 0;
+        return (c === "x" ? r : (r & 0x3 | 0x8)).toString(16);
+    });
+}
+
+/** @internal Returns a new unique resource ID */
+function newRID() {
+    var buf = Buffer.alloc(8);
+    buf.writeUInt32BE(Math.random() * 0xFFFFFFFF >>> 0, 0);
+    buf.writeUInt32BE(_nextRID++, 4);
+    return buf.toString("base64").replace(/\//g, "-");
+}
@@ -0,0 +1,677 @@
+import * as _DocumentDB from "./_DocumentDB";
+
+/** Error thrown when a query cannot be parsed or evaluated by the in-memory query engine */
+export class SqlQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SqlQueryError";
+        Object.setPrototypeOf(this, SqlQueryError.prototype);
+    }
+}
+
+/** User defined functions that can be called from a query as `udf.name(...)` */
+export type UdfMap = { [name: string]: Function };
+
+/** Evaluate given SQL query against a list of documents, returns the list of results; supports `SELECT [TOP n] [VALUE] ... FROM ... [WHERE ...] [ORDER BY ...]` queries with parameters, common operators and built-in functions, and aggregates (`COUNT`, `SUM`, `MIN`, `MAX`, `AVG`) */
+export function executeQuery(query: _DocumentDB.SqlQuery, docs: any[],
+    udfs: UdfMap = {}): any[] {
+    var text = typeof query === "string" ? query : query.query;
+    var params: { [name: string]: any } = {};
+    if (typeof query !== "string" && query.parameters) {
+        query.parameters.forEach(p => { params[p.name] = p.value });
+    }
+    var q = new Parser(text).parseSelect();
+    var ctx: EvalContext = { alias: q.alias, params, udfs };
+
+    // filter and sort all documents
+    var rows = docs.filter(doc =>
+        !q.where || evaluate(q.where, doc, ctx) === true);
+    if (q.orderBy.length) {
+        var keys = new Map<any, any[]>();
+        rows.forEach(doc => keys.set(doc,
+            q.orderBy.map(o => evaluate(o.expr, doc, ctx))));
+        rows.sort((a, b) => {
+            var ka = keys.get(a)!, kb = keys.get(b)!;
+            for (var i = 0; i < q.orderBy.length; i++) {
+                var c = compareValues(ka[i], kb[i]);
+                if (c) return q.orderBy[i].desc ? -c : c;
+            }
+            return 0;
+        });
+    }
+
+    // aggregate if needed, otherwise project each row
+    var results: any[];
+    if (q.fields.length && q.fields.every(f => isAggregate(f.expr))) {
+        var values = q.fields.map(f => aggregate(<CallNode>f.expr, rows, ctx));
+        if (q.value) results = values[0] === undefined ? [] : [values[0]];
+        else results = [project(q.fields, values)];
+    }
+    else {
+        if (q.fields.some(f => isAggregate(f.expr)))
+            throw new SqlQueryError("Cannot mix aggregates and other expressions");
+        results = [];
+        rows.forEach(doc => {
+            if (q.star) results.push(doc);
+            else if (q.value) {
+                var v = evaluate(q.fields[0].expr, doc, ctx);
+                if (v !== undefined) results.push(v);
+            }
+            else {
+                results.push(project(q.fields,
+                    q.fields.map(f => evaluate(f.expr, doc, ctx))));
+            }
+        });
+    }
+    if (q.top) {
+        var top = evaluate(q.top, undefined, ctx);
+        if (typeof top !== "number" || top < 0)
+            throw new SqlQueryError("Invalid TOP value in query: " + text);
+        results = results.slice(0, top);
+    }
+    return results;
+}
+
+/** Compare two values for sorting, using the type order used by DocumentDB (undefined, null, booleans, numbers, strings) */
+export function compareValues(a: any, b: any) {
+    var ra = typeRank(a), rb = typeRank(b);
+    if (ra !== rb) return ra < rb ? -1 : 1;
+    if (a === b || ra > 4) return 0;
+    return a < b ? -1 : 1;
+}
+
+/** @internal Returns an ordering rank for the type of given value */
+function typeRank(v: any) {
+    if (v === undefined) return 0;
+    if (v === null) return 1;
+    switch (typeof v) {
+        case "boolean": return 2;
+        case "number": return 3;
+        case "string": return 4;
+        default: return 5;
+    }
+}
+
+/** @internal Create a projected object from given fields and values */
+function project(fields: Field[], values: any[]) {
+    var result: any = {};
+    fields.forEach((f, i) => {
+        if (values[i] !== undefined) result[f.name] = values[i];
+    });
+    return result;
+}
+
+// --- Syntax tree
+
+/** @internal */
+type Node = { k: "lit", v: any } | { k: "param", name: string } |
+    { k: "ref", name: string } | { k: "prop", obj: Node, name: Node } |
+    CallNode | { k: "bin", op: string, l: Node, r: Node } |
+    { k: "un", op: string, e: Node } |
+    { k: "in", e: Node, list: Node[], not: boolean } |
+    { k: "between", e: Node, lo: Node, hi: Node, not: boolean } |
+    { k: "arr", items: Node[] } | { k: "obj", props: Array<[string, Node]> } |
+    { k: "cond", c: Node, a: Node, b: Node };
+
+/** @internal */
+type CallNode = { k: "call", name: string, args: Node[], udf: boolean };
+
+/** @internal */
+interface Field { expr: Node, name: string }
+
+/** @internal */
+interface SelectQuery {
+    top?: Node;
+    value: boolean;
+    star: boolean;
+    fields: Field[];
+    alias: string;
+    where?: Node;
+    orderBy: Array<{ expr: Node, desc: boolean }>;
+}
+
+/** @internal */
+interface EvalContext {
+    alias: string;
+    params: { [name: string]: any };
+    udfs: UdfMap;
+}
+
+// --- Parser
+
+/** @internal */
+interface Token { t: "num" | "str" | "id" | "param" | "op" | "eof", v: any, pos: number }
+
+/** @internal Keywords that cannot be used as (unquoted) aliases */
+const RESERVED = ["select", "top", "value", "from", "where", "order", "by",
+    "asc", "desc", "and", "or", "not", "in", "between", "as", "join"];
+
+/** @internal Recursive descent parser for a subset of DocumentDB SQL */
+class Parser {
+    constructor(private _text: string) {
+        this._tokens = tokenize(_text);
+    }
+
+    /** Parse a complete SELECT query */
+    public parseSelect(): SelectQuery {
+        this._expectKeyword("select");
+        var q: SelectQuery = { value: false, star: false, fields: [], alias: "root", orderBy: [] };
+        if (this._acceptKeyword("top")) {
+            var top = this._next();
+            if (top.t === "num") q.top = { k: "lit", v: top.v };
+            else if (top.t === "param") q.top = { k: "param", name: top.v };
+            else this._fail("Expected number after TOP", top);
+        }
+        if (this._acceptKeyword("value")) {
+            q.value = true;
+            q.fields.push({ expr: this._parseExpr(), name: "$1" });
+        }
+        else if (this._acceptOp("*")) {
+            q.star = true;
+        }
+        else {
+            do {
+                var expr = this._parseExpr();
+                var name: string | undefined = undefined;
+                if (this._acceptKeyword("as")) name = this._expectId();
+                else if (this._peek().t === "id" && !this._isReserved(this._peek()))
+                    name = this._expectId();
+                if (!name) {
+                    name = expr.k === "prop" && expr.name.k === "lit" ?
+                        String(expr.name.v) : "$" + (q.fields.length + 1);
+                }
+                q.fields.push({ expr, name });
+            } while (this._acceptOp(","));
+        }
+        this._expectKeyword("from");
+        q.alias = this._expectId();
+        if (this._acceptKeyword("as")) q.alias = this._expectId();
+        else if (this._peek().t === "id" && !this._isReserved(this._peek()))
+            q.alias = this._expectId();
+        if (this._acceptKeyword("where")) q.where = this._parseExpr();
+        if (this._acceptKeyword("order")) {
+            this._expectKeyword("by");
+            do {
+                var sortExpr = this._parseExpr();
+                var desc = false;
+                if (this._acceptKeyword("desc")) desc = true;
+                else this._acceptKeyword("asc");
+                q.orderBy.push({ expr: sortExpr, desc });
+            } while (this._acceptOp(","));
+        }
+        var rest = this._peek();
+        if (rest.t !== "eof") this._fail("Unexpected token", rest);
+        return q;
+    }
+
+    private _parseExpr(): Node {
+        var c = this._parseOr();
+        if (this._acceptOp("?")) {
+            var a = this._parseExpr();
+            this._expectOp(":");
+            var b = this._parseExpr();
+            return { k: "cond", c, a, b };
+        }
+        if (this._acceptOp("??")) {
+            return { k: "bin", op: "??", l: c, r: this._parseExpr() };
+        }
+        return c;
+    }
+
+    private _parseOr(): Node {
+        var l = this._parseAnd();
+        while (this._acceptKeyword("or")) l = { k: "bin", op: "or", l, r: this._parseAnd() };
+        return l;
+    }
+
+    private _parseAnd(): Node {
+        var l = this._parseNot();
+        while (this._acceptKeyword("and")) l = { k: "bin", op: "and", l, r: this._parseNot() };
+        return l;
+    }
+
+    private _parseNot(): Node {
+        if (this._acceptKeyword("not")) return { k: "un", op: "not", e: this._parseNot() };
+        return this._parseComparison();
+    }
+
+    private _parseComparison(): Node {
+        var l = this._parseAdditive();
+        var tok = this._peek();
+        if (tok.t === "op" && ["=", "!=", "<>", "<", ">", "<=", ">="].indexOf(tok.v) >= 0) {
+            this._next();
+            return { k: "bin", op: tok.v === "<>" ? "!=" : tok.v, l, r: this._parseAdditive() };
+        }
+        var not = this._acceptKeyword("not");
+        if (this._acceptKeyword("in")) {
+            this._expectOp("(");
+            var list: Node[] = [];
+            if (!this._acceptOp(")")) {
+                do { list.push(this._parseExpr()) } while (this._acceptOp(","));
+                this._expectOp(")");
+            }
+            return { k: "in", e: l, list, not };
+        }
+        if (this._acceptKeyword("between")) {
+            var lo = this._parseAdditive();
+            this._expectKeyword("and");
+            var hi = this._parseAdditive();
+            return { k: "between", e: l, lo, hi, not };
+        }
+        if (not) this._fail("Expected IN or BETWEEN", this._peek());
+        return l;
+    }
+
+    private _parseAdditive(): Node {
+        var l = this._parseMultiplicative();
+        while (true) {
+            var tok = this._peek();
+            if (tok.t !== "op" || (tok.v !== "+" && tok.v !== "-" && tok.v !== "||")) return l;
+            this._next();
+            l = { k: "bin", op: tok.v, l, r: this._parseMultiplicative() };
+        }
+    }
+
+    private _parseMultiplicative(): Node {
+        var l = this._parseUnary();
+        while (true) {
+            var tok = this._peek();
+            if (tok.t !== "op" || (tok.v !== "*" && tok.v !== "/" && tok.v !== "%")) return l;
+            this._next();
+            l = { k: "bin", op: tok.v, l, r: this._parseUnary() };
+        }
+    }
+
+    private _parseUnary(): Node {
+        if (this._acceptOp("-")) return { k: "un", op: "-", e: this._parseUnary() };
+        if (this._acceptOp("+")) return this._parseUnary();
+        return this._parsePostfix();
+    }
+
+    private _parsePostfix(): Node {
+        var e = this._parsePrimary();
+        while (true) {
+            if (this._acceptOp(".")) {
+                e = { k: "prop", obj: e, name: { k: "lit", v: this._expectId() } };
+            }
+            else if (this._acceptOp("[")) {
+                e = { k: "prop", obj: e, name: this._parseExpr() };
+                this._expectOp("]");
+            }
+            else return e;
+        }
+    }
+
+    private _parsePrimary(): Node {
+        var tok = this._next();
+        switch (tok.t) {
+            case "num":
+            case "str":
+                return { k: "lit", v: tok.v };
+            case "param":
+                return { k: "param", name: tok.v };
+            case "id":
+                var lc = tok.v.toLowerCase();
+                if (lc === "true") return { k: "lit", v: true };
+                if (lc === "false") return { k: "lit", v: false };
+                if (lc === "null") return { k: "lit", v: null };
+                if (lc === "undefined") return { k: "lit", v: undefined };
+                if (lc === "udf" && this._acceptOp(".")) {
+                    var udfName = this._expectId();
+                    return { k: "call", name: udfName, args: this._parseArgs(), udf: true };
+                }
+                if (this._peek().t === "op" && this._peek().v === "(") {
+                    return { k: "call", name: lc, args: this._parseArgs(), udf: false };
+                }
+                if (this._isReserved(tok)) this._fail("Unexpected keyword", tok);
+                return { k: "ref", name: tok.v };
+            case "op":
+                if (tok.v === "(") {
+                    var e = this._parseExpr();
+                    this._expectOp(")");
+                    return e;
+                }
+                if (tok.v === "[") {
+                    var items: Node[] = [];
+                    if (!this._acceptOp("]")) {
+                        do { items.push(this._parseExpr()) } while (this._acceptOp(","));
+                        this._expectOp("]");
+                    }
+                    return { k: "arr", items };
+                }
+                if (tok.v === "{") {
+                    var props: Array<[string, Node]> = [];
+                    if (!this._acceptOp("}")) {
+                        do {
+                            var key = this._next();
+                            if (key.t !== "id" && key.t !== "str")
+                                this._fail("Expected property name", key);
+                            this._expectOp(":");
+                            props.push([String(key.v), this._parseExpr()]);
+                        } while (this._acceptOp(","));
+                        this._expectOp("}");
+                    }
+                    return { k: "obj", props };
+                }
+        }
+        return this._fail("Unexpected token", tok);
+    }
+
+    private _parseArgs() {
+        this._expectOp("(");
+        var args: Node[] = [];
+        if (!this._acceptOp(")")) {
+            do { args.push(this._parseExpr()) } while (this._acceptOp(","));
+            this._expectOp(")");
+        }
+        return args;
+    }
+
+    private _isReserved(tok: Token) {
+        return tok.t === "id" && RESERVED.indexOf(tok.v.toLowerCase()) >= 0;
+    }
+
+    private _peek() { return this._tokens[this._pos] }
+
+    private _next() {
+        var tok = this._tokens[this._pos];
+        if (tok.t !== "eof") this._pos++;
+        return tok;
+    }
+
+    private _acceptKeyword(kw: string) {
+        var tok = this._peek();
+        if (tok.t === "id" && tok.v.toLowerCase() === kw) {
+            this._pos++;
+            return true;
+        }
+        return false;
+    }
+
+    private _expectKeyword(kw: string) {
+        if (!this._acceptKeyword(kw)) this._fail("Expected " + kw.toUpperCase(), this._peek());
+    }
+
+    private _acceptOp(op: string) {
+        var tok = this._peek();
+        if (tok.t === "op" && tok.v === op) {
+            this._pos++;
+            return true;
+        }
+        return false;
+    }
+
+    private _expectOp(op: string) {
+        if (!this._acceptOp(op)) this._fail("Expected " + op, this._peek());
+    }
+
+    private _expectId(): string {
+        var tok = this._next();
+        if (tok.t !== "id") this._fail("Expected identifier", tok);
+        return tok.v;
+    }
+
+    private _fail(message: string, tok: Token): never {
+        throw new SqlQueryError(message + " at position " + tok.pos +
+            " in query: " + this._text);
+    }
+
+    private _tokens: Token[];
+    private _pos = 0;
+}
+
+/** @internal Split given query text into tokens */
+function tokenize(text: string) {
+    var tokens: Token[] = [];
+    var ops = ["<=", ">=", "!=", "<>", "||", "??",
+        "=", "<", ">", "+", "-", "*", "/", "%", "(", ")", "[", "]",
+        "{", "}", ",", ".", ":", "?"];
+    var i = 0;
+    while (i < text.length) {
+        var ch = text[i];
+        if (/\s/.test(ch)) { i++; continue }
+        var start = i;
+        if (/[0-9]/.test(ch) || ch === "." && /[0-9]/.test(text[i + 1] || "")) {
+            var m = /^(?:[0-9]*\.?[0-9]+|[0-9]+\.)(?:[eE][+-]?[0-9]+)?/.exec(text.slice(i))!;
+            tokens.push({ t: "num", v: parseFloat(m[0]), pos: start });
+            i += m[0].length;
+        }
+        else if (ch === "'" || ch === "\"") {
+            var s = "";
+            i++;
+            while (i < text.length && text[i] !== ch) {
+                if (text[i] === "\\") {
+                    var esc = text[++i];
+                    switch (esc) {
+                        case "n": s += "\n"; break;
+                        case "r": s += "\r"; break;
+                        case "t": s += "\t"; break;
+                        case "b": s += "\b"; break;
+                        case "f": s += "\f"; break;
+                        case "u":
+                            s += String.fromCharCode(parseInt(text.substr(i + 1, 4), 16));
+                            i += 4;
+                            break;
+                        default: s += esc;
+                    }
+                    i++;
+                }
+                else s += text[i++];
+            }
+            if (i >= text.length)
+                throw new SqlQueryError("Unterminated string in query: " + text);
+            i++;
+            tokens.push({ t: "str", v: s, pos: start });
+        }
+        else if (ch === "@" || /[A-Za-z_$]/.test(ch)) {
+            var id = /^@?[A-Za-z_$][A-Za-z0-9_$]*/.exec(text.slice(i));
+            if (!id) throw new SqlQueryError("Invalid parameter name in query: " + text);
+            tokens.push({ t: ch === "@" ? "param" : "id", v: id[0], pos: start });
+            i += id[0].length;
+        }
+        else {
+            var op = ops.filter(o => text.substr(i, o.length) === o)[0];
+            if (!op) throw new SqlQueryError("Unexpected character '" + ch +
+                "' at position " + i + " in query: " + text);
+            tokens.push({ t: "op", v: op, pos: start });
+            i += op.length;
+        }
+    }
+    tokens.push({ t: "eof", v: undefined, pos: i });
+    return tokens;
+}
+
+// --- Evaluation
+
+/** @internal Names of aggregate functions */
+const AGGREGATES = ["count", "sum", "min", "max", "avg"];
+
+/** @internal Returns true if given node is an aggregate function call */
+function isAggregate(node: Node): node is CallNode {
+    return node.k === "call" && !node.udf && AGGREGATES.indexOf(node.name) >= 0;
+}
+
+/** @internal Evaluate given aggregate function call over all rows */
+function aggregate(node: CallNode, rows: any[], ctx: EvalContext) {
+    var values = rows.map(doc => node.args.length ?
+        evaluate(node.args[0], doc, ctx) : doc);
+    if (node.name === "count") return values.filter(v => v !== undefined).length;
+    var numbers = values.filter(v => typeof v === "number");
+    switch (node.name) {
+        case "sum":
+            return numbers.reduce((s, v) => s + v, 0);
+        case "avg":
+            return numbers.length ?
+                numbers.reduce((s, v) => s + v, 0) / numbers.length : undefined;
+        default:
+            var sorted = values.filter(v => v !== undefined).sort(compareValues);
+            return node.name === "min" ? sorted[0] : sorted[sorted.length - 1];
+    }
+}
+
+/** @internal Evaluate given expression for a single document */
+function evaluate(node: Node, doc: any, ctx: EvalContext): any {
+    switch (node.k) {
+        case "lit":
+            return node.v;
+        case "param":
+            return ctx.params[node.name];
+        case "ref":
+            if (node.name === ctx.alias) return doc;
+            throw new SqlQueryError("Identifier could not be resolved: " + node.name);
+        case "prop":
+            var obj = evaluate(node.obj, doc, ctx);
+            var name = evaluate(node.name, doc, ctx);
+            if (obj === null || typeof obj !== "object" ||
+                (typeof name !== "string" && typeof name !== "number") ||
+                !Object.prototype.hasOwnProperty.call(obj, name))
+                return undefined;
+            return obj[name];
+        case "call":
+            var args = node.args.map(a => evaluate(a, doc, ctx));
+            if (node.udf) {
+                var udf = ctx.udfs[node.name];
+                if (!udf) throw new SqlQueryError("Unknown user defined function: " + node.name);
+                return udf.apply(undefined, args);
+            }
+            return callFunction(node.name, args);
+        case "un":
+            var v = evaluate(node.e, doc, ctx);
+            if (node.op === "not") return typeof v === "boolean" ? !v : undefined;
+            return typeof v === "number" ? -v : undefined;
+        case "bin":
+            return binary(node.op, evaluate(node.l, doc, ctx),
+                () => evaluate(node.r, doc, ctx));
+        case "in":
+            var e = evaluate(node.e, doc, ctx);
+            if (e === undefined) return undefined;
+            var found = node.list.some(item => deepEqual(e, evaluate(item, doc, ctx)));
+            return node.not ? !found : found;
+        case "between":
+            var x = evaluate(node.e, doc, ctx);
+            var ge = binary(">=", x, () => evaluate(node.lo, doc, ctx));
+            var le = binary("<=", x, () => evaluate(node.hi, doc, ctx));
+            if (typeof ge !== "boolean" || typeof le !== "boolean") return undefined;
+            return node.not ? !(ge && le) : ge && le;
+        case "arr":
+            return node.items.map(item => evaluate(item, doc, ctx));
+        case "obj":
+            var result: any = {};
+            node.props.forEach(p => {
+                var pv = evaluate(p[1], doc, ctx);
+                if (pv !== undefined) result[p[0]] = pv;
+            });
+            return result;
+        case "cond":
+            var c = evaluate(node.c, doc, ctx);
+            return c === true ? evaluate(node.a, doc, ctx) : evaluate(node.b, doc, ctx);
+    }
+}
+
+/** @internal Evaluate a binary operator (right hand side is evaluated lazily) */
+function binary(op: string, l: any, rf: () => any): any {
+    switch (op) {
+        case "and":
+            if (l === false) return false;
+            var ra = rf();
+            if (ra === false) return false;
+            return l === true && ra === true ? true : undefined;
+        case "or":
+            if (l === true) return true;
+            var ro = rf();
+            if (ro === true) return true;
+            return l === false && ro === false ? false : undefined;
+        case "??":
+            return l !== undefined ? l : rf();
+    }
+    var r = rf();
+    if (l === undefined || r === undefined) return undefined;
+    switch (op) {
+        case "=":
+            return deepEqual(l, r);
+        case "!=":
+            return !deepEqual(l, r);
+        case "<": case ">": case "<=": case ">=":
+            if (typeof l !== typeof r || typeRank(l) === 5 || l === null) return undefined;
+            return op === "<" ? l < r : op === ">" ? l > r :
+                op === "<=" ? l <= r : l >= r;
+        case "||":
+            return typeof l === "string" && typeof r === "string" ? l + r : undefined;
+    }
+    if (typeof l !== "number" || typeof r !== "number") return undefined;
+    switch (op) {
+        case "+": return l + r;
+        case "-": return l - r;
+        case "*": return l * r;
+        case "/": return l / r;
+        case "%": return l % r;
+    }
+    return undefined;
+}
+
+/** @internal Call a built-in function */
+function callFunction(name: string, args: any[]) {
+    var s = args[0], t = args[1];
+    var isStr = typeof s === "string";
+    switch (name) {
+        case "is_defined": return s !== undefined;
+        case "is_null": return s === null;
+        case "is_bool": return typeof s === "boolean";
+        case "is_number": return typeof s === "number";
+        case "is_string": return isStr;
+        case "is_array": return Array.isArray(s);
+        case "is_object": return !!s && typeof s === "object" && !Array.isArray(s);
+        case "is_primitive": return s === null || typeRank(s) > 1 && typeRank(s) < 5;
+        case "contains": return isStr && typeof t === "string" ? s.indexOf(t) >= 0 : undefined;
+        case "startswith": return isStr && typeof t === "string" ? s.slice(0, t.length) === t : undefined;
+        case "endswith": return isStr && typeof t === "string" ? s.slice(s.length - t.length) === t : undefined;
+        case "index_of": return isStr && typeof t === "string" ? s.indexOf(t) : undefined;
+        case "lower": return isStr ? s.toLowerCase() : undefined;
+        case "upper": return isStr ? s.toUpperCase() : undefined;
+        case "length": return isStr ? s.length : undefined;
+        case "trim": return isStr ? s.trim() : undefined;
+        case "ltrim": return isStr ? s.replace(/^\s+/, "") : undefined;
+        case "rtrim": return isStr ? s.replace(/\s+$/, "") : undefined;
+        case "left": return isStr ? s.slice(0, t) : undefined;
+        case "right": return isStr ? s.slice(Math.max(0, s.length - t)) : undefined;
+        case "substring": return isStr ? s.substr(t, args[2]) : undefined;
+        case "replace": return isStr ? s.split(t).join(args[2]) : undefined;
+        case "reverse": return isStr ? s.split("").reverse().join("") : undefined;
+        case "concat":
+            return args.every(a => typeof a === "string") ? args.join("") : undefined;
+        case "tostring":
+            return s === undefined ? undefined :
+                typeof s === "string" ? s : JSON.stringify(s);
+        case "array_length": return Array.isArray(s) ? s.length : undefined;
+        case "array_concat":
+            return args.every(a => Array.isArray(a)) ?
+                [].concat.apply([], args) : undefined;
+        case "array_slice":
+            return Array.isArray(s) ? s.slice(t, args[2] === undefined ?
+                undefined : t + args[2]) : undefined;
+        case "array_contains":
+            if (!Array.isArray(s)) return undefined;
+            return s.some(item => args[2] === true &&
+                item && typeof item === "object" && t && typeof t === "object" ?
+                Object.keys(t).every(k => deepEqual(item[k], t[k])) :
+                deepEqual(item, t));
+    }
+    var math: { [name: string]: (n: number) => number } = {
+        abs: Math.abs, ceiling: Math.ceil, floor: Math.floor, round: Math.round,
+        sqrt: Math.sqrt, exp: Math.exp, log: Math.log, sign: Math.sign,
+        trunc: Math.trunc
+    };
+    if (math[name]) return typeof s === "number" ? math[name](s) : undefined;
+    throw new SqlQueryError("Unknown function: " + name.toUpperCase());
+}
+
+/** @internal Returns true if both values are equal, comparing arrays and objects by value */
+function deepEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    var ka = Object.keys(a), kb = Object.keys(b);
+    if (ka.length !== kb.length) return false;
+    return ka.every(k => Object.prototype.hasOwnProperty.call(b, k) &&
+        deepEqual(a[k], b[k]));
+}
@@ -0,0 +1,337 @@
+import * as _DocumentDB from "./_DocumentDB";
+import { Database } from "./Database";
+import { Collection, StoreMode } from "./Collection";
+import { NotFoundError, ConflictError, PreconditionFailedError } from "./Errors";
+import { CancellationOptions, throwIfCancelled } from "./Cancellation";
+
+/** ID of the lock document in the migrations collection */
+const LOCK_ID = "_lock";
+
+/** A single named migration step (see `MigrationRunner`) */
+export interface Migration {
+    /** Unique name of this migration, which is recorded once the migration has been applied */
+    name: string;
+    /** Description of this migration, if any (also recorded) */
+    description?: string;
+    /** Function that applies this migration, using given context (which does not make any changes in dry-run mode) */
+    run(context: MigrationContext): void | PromiseLike<void>;
+}
+
+/** Migration history document, as stored in the migrations collection */
+export interface MigrationRecord {
+    /** Document ID, i.e. the name of the migration */
+    id: string;
+    /** Description of the migration, if any */
+    description?: string;
+    /** Date and time (ISO string) at which the migration was applied */
+    appliedAt: string;
+    /** Duration (ms) of the migration */
+    duration: number;
+}
+
+/** Lock document, as stored in the migrations collection while migrations are running */
+interface MigrationLock {
+    id: string;
+    /** Unique ID of the runner that holds the lock */
+    owner: string;
+    /** Time (ms since epoch) after which the lock may be taken over */
+    expires: number;
+}
+
+/** Error that is thrown when migrations cannot run because another runner holds the lock (see `MigrationRunner.lockTimeout`) */
+export class MigrationLockError extends Error {
+    constructor(message = "Migrations are locked by another process") {
+        super(message);
+        Object.setPrototypeOf(this, MigrationLockError.prototype);
+        this.name = "MigrationLockError";
+    }
+}
+
+/** Context passed to each migration step; all methods only log the intended changes instead of making them if `dryRun` is true */
+export class MigrationContext {
+    /** @internal */
+    constructor(database: Database, migration: Migration, dryRun: boolean,
+        private _options?: CancellationOptions) {
+        this.database = database;
+        this.migration = migration;
+        this.dryRun = dryRun;
+    }
+
+    /** The database that is being migrated */
+    public readonly database: Database;
+
+    /** The migration that is being applied */
+    public readonly migration: Migration;
+
+    /** True if no changes should be made (i.e. changes are only logged) */
+    public readonly dryRun: boolean;
+
+    /** Log given message (see `Client.logger`) */
+    public log(message: string) {
+        this.database.client.log(`[Migration ${this.migration.name}] ` +
+            (this.dryRun ? "(dry run) " : "") + message);
+    }
+
+    /** Returns a collection instance for the collection with given ID, in this database */
+    public collection<T extends {} = any>(id: string) {
+        return new Collection<T>(id, this.database);
+    }
+
+    /** Create a collection with given ID, unless it already exists (see `Collection.openOrCreateAsync`); a partitioned collection is created if a partition key definition is specified */
+    public async createCollectionAsync(id: string,
+        partitionKey?: _DocumentDB.PartitionKeyDefinition, throughput?: number,
+        indexingPolicy?: _DocumentDB.IndexingPolicy, defaultTtl?: number) {
+        var collection = this.collection(id);
+        if (partitionKey) collection.partitionKey = partitionKey;
+        this.log("Creating collection " + id);
+        if (!this.dryRun) {
+            await collection.openOrCreateAsync(throughput, indexingPolicy,
+                defaultTtl, undefined, this._options);
+        }
+        return collection;
+    }
+
+    /** Delete the collection with given ID, if it exists */
+    public async deleteCollectionAsync(id: string) {
+        this.log("Deleting collection " + id);
+        if (this.dryRun) return;
+        try {
+            await this.collection(id).deleteAsync(undefined, this._options);
+        }
+        catch (err) {
+            if (!(err instanceof NotFoundError)) throw err;
+        }
+    }
+
+    /** Replace the indexing policy (and default TTL, if specified) of the collection with given ID if it differs from given policy (see `Collection.setIndexingPolicyAsync`), and wait for the index transformation to complete unless `wait` is false */
+    public async setIndexingPolicyAsync(id: string,
+        indexingPolicy: _DocumentDB.IndexingPolicy, defaultTtl?: number | null,
+        wait = true) {
+        var collection = this.collection(id);
+        if (defaultTtl === undefined && !await this._skipMissing(
+            collection.hasIndexingPolicyDriftAsync(indexingPolicy,
+                undefined, this._options), true)) {
+            this.log("Indexing policy for " + id + " is up to date");
+            return;
+        }
+        this.log("Replacing indexing policy for " + id);
+        if (this.dryRun) return;
+        await collection.setIndexingPolicyAsync(indexingPolicy, defaultTtl,
+            undefined, this._options);
+        if (wait) {
+            await collection.waitForIndexTransformationAsync(undefined,
+                progress => this.log(`Index transformation for ${id}: ${progress}%`),
+                undefined, this._options);
+        }
+    }
+
+    /** Set the provisioned throughput (RU/s) of the collection with given ID */
+    public async setThroughputAsync(id: string, throughput: number) {
+        this.log(`Setting throughput for ${id} to ${throughput}`);
+        if (this.dryRun) return;
+        await this.collection(id).setOfferInfoAsync(throughput, this._options);
+    }
+
+    /** Read all documents from the collection with given ID (or the results of given query, which must select full documents, i.e. `SELECT * FROM`), and call given function for each document; the function may modify the document in place and return true, or return a new document (which replaces the existing document), or return undefined or false to leave the document unchanged; documents that have been changed in the meantime are read again and transformed once more; returns a promise for the number of documents that have been changed (or would be changed, in dry-run mode) */
+    public async transformDocumentsAsync<T extends {} = any>(id: string,
+        transform: (doc: T & _DocumentDB.DocumentResource) =>
+            T | boolean | void | PromiseLike<T | boolean | void>,
+        query?: _DocumentDB.SqlQuery) {
+        var collection = this.collection<T>(id);
+        var stream = query !== undefined ?
+            collection.queryDocuments<T & _DocumentDB.DocumentResource>(query, this._options) :
+            collection.queryDocuments(undefined, this._options);
+        let apply = async (doc: T & _DocumentDB.DocumentResource) => {
+            var result = await transform(doc);
+            if (result === true) return doc;
+            if (!result) return undefined;
+            return Object.assign({}, result, {
+                id: doc.id, _self: doc._self, _etag: doc._etag
+            });
+        };
+        var count = 0;
+        while (true) {
+            throwIfCancelled(this._options && this._options.signal);
+            var doc = await this._skipMissing(stream.read(), null);
+            if (!doc) break;
+            var data = await apply(doc);
+            if (!data) continue;
+            count++;
+            if (this.dryRun) continue;
+            try {
+                await collection.storeDocumentAsync(data,
+                    StoreMode.UpdateOnlyIfNoChange, undefined, this._options);
+            }
+            catch (err) {
+                if (!(err instanceof PreconditionFailedError)) throw err;
+                await collection.updateDocumentAsync({ _self: doc._self },
+                    async current => (await apply(
+                        <T & _DocumentDB.DocumentResource>current)) || current,
+                    false, undefined, undefined, this._options);
+            }
+        }
+        this.log(`Transformed ${count} document(s) in ${id}`);
+        return count;
+    }
+
+    /** @internal Returns a promise for the result of given promise, or for given value if the promise is rejected with a `NotFoundError` in dry-run mode (i.e. for collections that would have been created by earlier migrations) */
+    private async _skipMissing<T>(promise: PromiseLike<T>, value: T) {
+        try {
+            return await promise;
+        }
+        catch (err) {
+            if (!this.dryRun || !(err instanceof NotFoundError)) throw err;
+            return value;
+        }
+    }
+}
+
+/** Runs named migration steps in order, recording applied migrations in a dedicated collection (with a lock document to avoid concurrent runs), so that each migration is applied only once */
+export class MigrationRunner {
+    /** Create a new runner for given database and list of migrations; the history of applied migrations is stored in the collection with given ID (created if needed) */
+    constructor(public readonly database: Database, migrations: Migration[] = [],
+        public readonly collectionId = "migrations") {
+        migrations.forEach(m => this.add(m));
+    }
+
+    /** Time (ms) after which a lock held by another runner is considered stale and may be taken over, renewed before each migration (defaults to 10 minutes) */
+    public lockTimeout = 10 * 60 * 1000;
+
+    /** All migrations, in order */
+    public get migrations(): ReadonlyArray<Migration> { return this._migrations }
+
+    /** Add given migration (after all migrations that have been added already); returns this instance */
+    public add(migration: Migration) {
+        if (!migration || !migration.name || migration.name === LOCK_ID)
+            throw new Error("Invalid migration name");
+        if (this._migrations.some(m => m.name === migration.name))
+            throw new Error("Duplicate migration name: " + migration.name);
+        this._migrations.push(migration);
+        return this;
+    }
+
+    /** Returns a list of all migrations that have been applied (from the migrations collection, in order of application), if any */
+    public async getAppliedAsync(options?: CancellationOptions) {
+        try {
+            var collection = await new Collection<MigrationRecord>(this.collectionId,
+                this.database).openAsync(undefined, options);
+            var docs = await collection.queryDocuments(undefined, options).toArray();
+        }
+        catch (err) {
+            if (err instanceof NotFoundError) return [];
+            throw err;
+        }
+        return docs.filter(d => d.id !== LOCK_ID)
+            .sort((a, b) => a.appliedAt < b.appliedAt ? -1 :
+                a.appliedAt > b.appliedAt ? 1 : 0);
+    }
+
+    /** Returns a list of migrations that have not been applied yet, in order */
+    public async getPendingAsync(options?: CancellationOptions) {
+        var applied = await this.getAppliedAsync(options);
+        return this._migrations.filter(m => !applied.some(r => r.id === m.name));
+    }
+
+    /** Apply all pending migrations in order, while holding the lock (creates the database and migrations collection if needed); in dry-run mode, migrations are run without making changes, and without taking the lock or recording the migrations; returns a promise for the names of all migrations that have been applied (or would be applied); rejected with a `MigrationLockError` if another runner holds the lock, or with the error thrown by a migration (after which the lock is released, and later migrations are not applied) */
+    public async runAsync(dryRun = false, options?: CancellationOptions) {
+        if (dryRun) {
+            var pending = await this.getPendingAsync(options);
+            for (var migration of pending) {
+                throwIfCancelled(options && options.signal);
+                await migration.run(new MigrationContext(this.database,
+                    migration, true, options));
+            }
+            return pending.map(m => m.name);
+        }
+        await this.database.openOrCreateAsync(undefined, options);
+        var collection = await new Collection<MigrationRecord>(this.collectionId,
+            this.database).openOrCreateAsync(undefined, undefined, undefined,
+                undefined, options);
+        await this._lockAsync(collection);
+        var result: string[] = [];
+        try {
+            for (var migration of await this.getPendingAsync(options)) {
+                throwIfCancelled(options && options.signal);
+                await this._lockAsync(collection);
+                var started = Date.now();
+                this.database.client.log("Applying migration " + migration.name);
+                await migration.run(new MigrationContext(this.database,
+                    migration, false, options));
+                var record: MigrationRecord = {
+                    id: migration.name,
+                    appliedAt: new Date().toISOString(),
+                    duration: Date.now() - started
+                };
+                if (migration.description) record.description = migration.description;
+                await collection.storeDocumentAsync(record, StoreMode.CreateOnly);
+                result.push(migration.name);
+            }
+        }
+        catch (err) {
+            // release the lock, but report the original error
+            try {
+                await this._unlockAsync(collection);
+            }
+            catch (unlockErr) {
+                this.database.client.log("Failed to release migration lock: " +
+                    (unlockErr && unlockErr.message || unlockErr));
+            }
+            throw err;
+        }
+        await this._unlockAsync(collection);
+        return result;
+    }
+
+    /** @internal Take or renew the lock, or throw a `MigrationLockError` if another runner holds the lock (that has not expired yet) */
+    private async _lockAsync(collection: Collection) {
+        var lock: MigrationLock = {
+            id: LOCK_ID,
+            owner: this._owner,
+            expires: Date.now() + this.lockTimeout
+        };
+        try {
+            var current = await collection.findDocumentAsync<MigrationLock>(LOCK_ID);
+        }
+        catch (err) {
+            if (!(err instanceof NotFoundError)) throw err;
+            try {
+                return await collection.storeDocumentAsync(lock, StoreMode.CreateOnly);
+            }
+            catch (err) {
+                if (err instanceof ConflictError) throw new MigrationLockError();
+                throw err;
+            }
+        }
+        if (current.owner !== this._owner && current.expires > Date.now())
+            throw new MigrationLockError();
+        try {
+            return await collection.storeDocumentAsync(
+                Object.assign(lock, { _etag: current._etag }),
+                StoreMode.UpdateOnlyIfNoChange);
+        }
+        catch (err) {
+            if (err instanceof PreconditionFailedError ||
+                err instanceof NotFoundError) throw new MigrationLockError();
+            throw err;
+        }
+    }
+
+    /** @internal Release the lock, if still held by this runner */
+    private async _unlockAsync(collection: Collection) {
+        try {
+            var current = await collection.findDocumentAsync<MigrationLock>(LOCK_ID);
+            if (current.owner === this._owner)
+                await collection.deleteDocumentAsync(current);
+        }
+        catch (err) {
+            if (!(err instanceof NotFoundError)) throw err;
+        }
+    }
+
+    /** @internal */
+    private _migrations: Migration[] = [];
+
+    /** @internal Unique ID of this runner, used for the lock */
+    private _owner = process.pid + ":" + Date.now() + ":" +
+        Math.random().toString(36).slice(2);
+}
@@ -0,0 +1,220 @@
+import * as fs from "fs";
+import { StringDecoder } from "string_decoder";
+import * as _DocumentDB from "./_DocumentDB";
+import { Collection, AllOptions, StoreMode, BulkOperationResult } from "./Collection";
+import { throwIfCancelled } from "./Cancellation";
+
+/** System properties that are removed from documents if the `stripSystemProperties` option is set */
+const SYSTEM_PROPERTIES = ["_rid", "_self", "_etag", "_ts", "_attachments"];
+
+/** Options for exporting documents to newline-delimited JSON (see `Collection.exportDocumentsAsync`) */
+export interface ExportOptions {
+    /** Query used to select documents to export (must select full documents, i.e. `SELECT * FROM`); exports all documents if not specified */
+    query?: _DocumentDB.SqlQuery;
+    /** True if system properties (`_rid`, `_self`, `_etag`, `_ts`, `_attachments`) should be removed from exported documents */
+    stripSystemProperties?: boolean;
+    /** Function that is called with the total number of documents exported so far, after every page of results */
+    onProgress?: (count: number) => void;
+}
+
+/** Options for importing documents from newline-delimited JSON (see `Collection.importDocumentsAsync`) */
+export interface ImportOptions {
+    /** Mode used to store all documents (defaults to `Upsert`) */
+    mode?: StoreMode;
+    /** True if system properties (`_rid`, `_self`, `_ts`, `_attachments`, and `_etag` unless using the `UpdateOnlyIfNoChange` mode) should be removed before storing documents; defaults to true */
+    stripSystemProperties?: boolean;
+    /** Number of lines to skip, e.g. the `position` reported by an import that did not complete, to resume importing from that position */
+    skip?: number;
+    /** Number of documents that are read and stored at the same time (defaults to 100); progress is reported after each batch */
+    batchSize?: number;
+    /** Maximum number of concurrent store operations (defaults to 10) */
+    parallelism?: number;
+    /** True if the import should continue if any documents cannot be parsed or stored (see `onError`); otherwise the import is aborted at the first error, and the position reported by `onProgress` can be used to resume the import */
+    continueOnError?: boolean;
+    /** Function that is called for every document that cannot be parsed or stored, with the error and the line number (starting at 1), if continuing on errors */
+    onError?: (error: any, line: number) => void;
+    /** Function that is called with progress information after every batch */
+    onProgress?: (progress: ImportProgress) => void;
+}
+
+/** Progress information for an import (see `Collection.importDocumentsAsync`) */
+export interface ImportProgress {
+    /** Number of lines that have been processed (including skipped and empty lines), i.e. the position from which the import can be resumed using the `skip` option */
+    position: number;
+    /** Number of documents that have been stored */
+    stored: number;
+    /** Number of documents that could not be parsed or stored */
+    failed: number;
+}
+
+/** @internal Write documents from given collection to given stream or file, as newline-delimited JSON; returns the number of documents written */
+export async function exportDocumentsAsync(collection: Collection,
+    output: string | NodeJS.WritableStream, options: ExportOptions & AllOptions = {}) {
+    var stream: NodeJS.WritableStream = typeof output === "string" ?
+        fs.createWriteStream(output) : output;
+    var queryOptions: AllOptions & ExportOptions = Object.assign({}, options);
+    delete queryOptions.query;
+    delete queryOptions.stripSystemProperties;
+    delete queryOptions.onProgress;
+    var docs = options.query !== undefined ?
+        collection.queryDocuments(options.query, queryOptions) :
+        collection.queryDocuments(undefined, queryOptions);
+    var count = 0;
+    try {
+        while (true) {
+            var page = await docs.readPageAsync();
+            var lines = page.items.map(doc => JSON.stringify(
+                options.stripSystemProperties ? stripSystemProperties(doc) : doc) + "\n");
+            if (lines.length) {
+                count += lines.length;
+                await writeAsync(stream, lines.join(""));
+                options.onProgress && options.onProgress(count);
+            }
+            if (page.continuation === undefined) break;
+        }
+    }
+    finally {
+        if (typeof output === "string") await endAsync(stream);
+    }
+    return count;
+}
+
+/** @internal Read newline-delimited JSON documents from given stream or file and store them in given collection; returns the final progress information */
+export async function importDocumentsAsync(collection: Collection,
+    input: string | NodeJS.ReadableStream, options: ImportOptions & AllOptions = {}) {
+    var file = typeof input === "string" ? fs.createReadStream(input) : undefined;
+    var stream: NodeJS.ReadableStream = file || <NodeJS.ReadableStream>input;
+    var mode = options.mode || StoreMode.Upsert;
+    var skip = options.skip || 0;
+    var strip = options.stripSystemProperties !== false;
+    var storeOptions: AllOptions & ImportOptions = Object.assign({}, options);
+    delete storeOptions.mode;
+    delete storeOptions.stripSystemProperties;
+    delete storeOptions.skip;
+    delete storeOptions.batchSize;
+    delete storeOptions.parallelism;
+    delete storeOptions.continueOnError;
+    delete storeOptions.onError;
+    delete storeOptions.onProgress;
+    var progress: ImportProgress = { position: 0, stored: 0, failed: 0 };
+    let fail = (error: any, line: number) => {
+        progress.failed++;
+        if (!options.continueOnError) throw error;
+        options.onError && options.onError(error, line);
+    };
+    let processLinesAsync = async (lines: string[]) => {
+        throwIfCancelled(options.signal);
+        var docs: any[] = [], lineNumbers: number[] = [];
+        lines.forEach((line, i) => {
+            var lineNumber = progress.position + i + 1;
+            if (lineNumber <= skip || !line.trim()) return;
+            try {
+                var doc = JSON.parse(line);
+                if (!(doc instanceof Object) || Array.isArray(doc))
+                    throw new TypeError("Not a document");
+            }
+            catch (err) {
+                return fail(new SyntaxError(`Invalid document on line ${lineNumber}: ` +
+                    err.message), lineNumber);
+            }
+            if (strip) {
+                var etag = doc._etag;
+                doc = stripSystemProperties(doc);
+                if (mode === StoreMode.UpdateOnlyIfNoChange && etag) doc._etag = etag;
+            }
+            docs.push(doc);
+            lineNumbers.push(lineNumber);
+        });
+        if (docs.length) {
+            var results: Array<BulkOperationResult<any>> =
+                await collection.storeDocumentsAsync(docs, mode,
+                    options.parallelism, undefined, storeOptions);
+            results.forEach(r => {
+                if (r.success) progress.stored++;
+                else fail(r.error, lineNumbers[r.index]);
+            });
+        }
+        progress.position += lines.length;
+        options.onProgress && options.onProgress(Object.assign({}, progress));
+    };
+    try {
+        await readLinesAsync(stream, options.batchSize || 100, processLinesAsync);
+    }
+    finally {
+        // close the file if opened here (also if the import failed)
+        if (file) file.destroy();
+    }
+    return progress;
+}
+
+/** Returns a copy of given document without system properties */
+function stripSystemProperties(doc: any) {
+    var result = Object.assign({}, doc);
+    SYSTEM_PROPERTIES.forEach(p => { delete result[p] });
+    return result;
+}
+
+/** Write given text to given stream, waiting for the stream to drain if needed */
+function writeAsync(stream: NodeJS.WritableStream, text: string) {
+    return new Promise<void>((resolve, reject) => {
+        let done = (err?: any) => {
+            stream.removeListener("error", done);
+            stream.removeListener("drain", done);
+            err ? reject(err) : resolve();
+        };
+        stream.on("error", done);
+        if (stream.write(text)) done();
+        else stream.on("drain", done);
+    });
+}
+
+/** End given stream, and wait until all data has been written */
+function endAsync(stream: NodeJS.WritableStream) {
+    return new Promise<void>((resolve, reject) => {
+        stream.on("error", reject);
+        stream.on("finish", resolve);
+        stream.end();
+    });
+}
+
+/** Read all lines from given stream, and call given function with batches of (up to) given number of lines; the stream is paused while the function runs; returns a promise that resolves when all lines have been processed */
+function readLinesAsync(stream: NodeJS.ReadableStream, batchSize: number,
+    f: (lines: string[]) => Promise<void>) {
+    return new Promise<void>((resolve, reject) => {
+        var decoder = new StringDecoder("utf8");
+        var lines: string[] = [], rest = "", ended = false, busy = false;
+        let next = async () => {
+            if (busy) return;
+            busy = true;
+            try {
+                while (lines.length >= batchSize || ended && lines.length)
+                    await f(lines.splice(0, batchSize));
+            }
+            catch (err) {
+                stream.removeAllListeners("data");
+                stream.pause();
+                return reject(err);
+            }
+            busy = false;
+            if (ended) resolve();
+            else stream.resume();
+        };
+        stream.on("data", (chunk: Buffer | string) => {
+            var parts = (rest + (typeof chunk === "string" ?
+                chunk : decoder.write(chunk))).split(/\r?\n/);
+            rest = parts.pop()!;
+            lines.push(...parts);
+            if (lines.length >= batchSize) {
+                stream.pause();
+                next();
+            }
+        });
+        stream.on("end", () => {
+            rest += decoder.end();
+            if (rest) lines.push(rest);
+            ended = true;
+            next();
+        });
+        stream.on("error", reject);
+    });
+}
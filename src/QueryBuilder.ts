@@ -0,0 +1,202 @@
+import * as _DocumentDB from "./_DocumentDB";
+
+/** Comparison operators that can be used in `QueryBuilder` conditions */
+export type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+/** String operators that can be used in `QueryBuilder` conditions */
+export type StringOperator = "contains" | "startsWith" | "endsWith";
+
+/** Document type including resource properties, as used by `QueryBuilder` */
+export type QueryDocument<T> = T & _DocumentDB.DocumentResource;
+
+/** Represents a query on documents of given type (with resource properties), which can be built up using chained method calls and passed to `Collection.queryDocuments` as a parameterized SQL query; the second type parameter represents the query result type, which is inferred from calls to `select`, `value`, and `count`; instances are immutable, i.e. every method returns a new instance */
+export class QueryBuilder<T, ResultT = QueryDocument<T>> {
+    /** Add a condition that matches documents with exactly the same values for all properties of given object (i.e. where _all_ own properties of the given object match exactly) */
+    public where(match: Partial<QueryDocument<T>>): QueryBuilder<T, ResultT>;
+    /** Add a condition that compares given property with given value */
+    public where<K extends keyof QueryDocument<T>>(prop: K,
+        op: ComparisonOperator, value: QueryDocument<T>[K]): QueryBuilder<T, ResultT>;
+    /** Add a condition that matches documents where given property is equal to one of given values */
+    public where<K extends keyof QueryDocument<T>>(prop: K,
+        op: "in", values: Array<QueryDocument<T>[K]>): QueryBuilder<T, ResultT>;
+    /** Add a condition that matches documents where given (string) property contains, starts with, or ends with given string */
+    public where<K extends keyof QueryDocument<T>>(prop: K,
+        op: StringOperator, value: string): QueryBuilder<T, ResultT>;
+    public where(...args: any[]) {
+        var result = this._clone();
+        result._conditions.push(result._condition(args));
+        return result;
+    }
+
+    /** Add a condition (same as `where`) */
+    public and(match: Partial<QueryDocument<T>>): QueryBuilder<T, ResultT>;
+    /** Add a condition (same as `where`) */
+    public and<K extends keyof QueryDocument<T>>(prop: K,
+        op: ComparisonOperator, value: QueryDocument<T>[K]): QueryBuilder<T, ResultT>;
+    /** Add a condition (same as `where`) */
+    public and<K extends keyof QueryDocument<T>>(prop: K,
+        op: "in", values: Array<QueryDocument<T>[K]>): QueryBuilder<T, ResultT>;
+    /** Add a condition (same as `where`) */
+    public and<K extends keyof QueryDocument<T>>(prop: K,
+        op: StringOperator, value: string): QueryBuilder<T, ResultT>;
+    public and(...args: any[]) {
+        return this.where.apply(this, args);
+    }
+
+    /** Add a condition that is combined with _all_ previous conditions using OR, i.e. `.where(a).and(b).or(c)` results in `(a and b) or c` */
+    public or(match: Partial<QueryDocument<T>>): QueryBuilder<T, ResultT>;
+    /** Add a condition that is combined with _all_ previous conditions using OR, i.e. `.where(a).and(b).or(c)` results in `(a and b) or c` */
+    public or<K extends keyof QueryDocument<T>>(prop: K,
+        op: ComparisonOperator, value: QueryDocument<T>[K]): QueryBuilder<T, ResultT>;
+    /** Add a condition that is combined with _all_ previous conditions using OR, i.e. `.where(a).and(b).or(c)` results in `(a and b) or c` */
+    public or<K extends keyof QueryDocument<T>>(prop: K,
+        op: "in", values: Array<QueryDocument<T>[K]>): QueryBuilder<T, ResultT>;
+    /** Add a condition that is combined with _all_ previous conditions using OR, i.e. `.where(a).and(b).or(c)` results in `(a and b) or c` */
+    public or<K extends keyof QueryDocument<T>>(prop: K,
+        op: StringOperator, value: string): QueryBuilder<T, ResultT>;
+    public or(...args: any[]) {
+        var result = this._clone();
+        var condition = result._condition(args);
+        result._conditions = result._conditions.length ?
+            ["(" + result._conditions.join(" and ") + " or " + condition + ")"] :
+            [condition];
+        return result;
+    }
+
+    /** Add a condition that matches documents where given property is equal to one of given values */
+    public in<K extends keyof QueryDocument<T>>(prop: K,
+        values: Array<QueryDocument<T>[K]>) {
+        return this.where(prop, "in", values);
+    }
+
+    /** Add a condition that matches documents where given (string) property contains given string */
+    public contains<K extends keyof QueryDocument<T>>(prop: K, value: string) {
+        return this.where(prop, "contains", value);
+    }
+
+    /** Add a condition that matches documents where given (string) property starts with given string */
+    public startsWith<K extends keyof QueryDocument<T>>(prop: K, value: string) {
+        return this.where(prop, "startsWith", value);
+    }
+
+    /** Sort results by given property (in ascending order, unless `descending` is true); multiple calls add secondary sort orders */
+    public orderBy<K extends keyof QueryDocument<T>>(prop: K, descending?: boolean) {
+        var result = this._clone();
+        result._orderBy.push(propertyRef(prop) + (descending ? " desc" : " asc"));
+        return result;
+    }
+
+    /** Limit the number of results */
+    public top(n: number) {
+        if (!(n >= 0) || Math.floor(n) !== n) throw new RangeError();
+        var result = this._clone();
+        result._top = n;
+        return result;
+    }
+
+    /** Select only given properties of each document (i.e. `SELECT c.a, c.b, ...`) */
+    public select<K extends keyof QueryDocument<T>>(...props: K[]):
+        QueryBuilder<T, Pick<QueryDocument<T>, K>> {
+        if (!props.length) throw new Error("No properties to select");
+        var result = this._clone<Pick<QueryDocument<T>, K>>();
+        result._select = props.map(propertyRef).join(", ");
+        return result;
+    }
+
+    /** Select only the value of given property for each document (i.e. `SELECT VALUE c.a`) */
+    public value<K extends keyof QueryDocument<T>>(prop: K):
+        QueryBuilder<T, QueryDocument<T>[K]> {
+        var result = this._clone<QueryDocument<T>[K]>();
+        result._select = "value " + propertyRef(prop);
+        return result;
+    }
+
+    /** Select the number of matching documents (i.e. `SELECT VALUE COUNT(1)`) */
+    public count(): QueryBuilder<T, number> {
+        var result = this._clone<number>();
+        result._select = "value count(1)";
+        return result;
+    }
+
+    /** Returns a parameterized SQL query object for this query */
+    public toSqlQuery(): _DocumentDB.SqlQuery {
+        var query = "select " +
+            (this._top !== undefined ? "top " + this._top + " " : "") +
+            this._select + " from c";
+        if (this._conditions.length)
+            query += " where " + this._conditions.join(" and ");
+        if (this._orderBy.length)
+            query += " order by " + this._orderBy.join(", ");
+        return { query, parameters: this._parameters.slice() };
+    }
+
+    /** @internal Returns a copy of this instance */
+    private _clone<NewResultT = ResultT>() {
+        var result = new QueryBuilder<T, NewResultT>();
+        result._select = this._select;
+        result._top = this._top;
+        result._conditions = this._conditions.slice();
+        result._orderBy = this._orderBy.slice();
+        result._parameters = this._parameters.slice();
+        return result;
+    }
+
+    /** @internal Returns a SQL condition for given `where` arguments, adds parameters */
+    private _condition(args: any[]): string {
+        if (args.length === 1) {
+            // add exact matches for all properties
+            var match = args[0], conditions: string[] = [];
+            if (!(match instanceof Object)) throw new TypeError();
+            for (var prop in match) {
+                if (Object.prototype.hasOwnProperty.call(match, prop)) {
+                    conditions.push(propertyRef(prop) + " = " +
+                        this._addParameter(match[prop]));
+                }
+            }
+            if (!conditions.length) return "true";
+            return conditions.length > 1 ?
+                "(" + conditions.join(" and ") + ")" : conditions[0];
+        }
+        var ref = propertyRef(args[0]), op: string = args[1], value = args[2];
+        switch (op) {
+            case "=": case "!=": case "<": case "<=": case ">": case ">=":
+                return ref + " " + op + " " + this._addParameter(value);
+            case "in":
+                if (!Array.isArray(value)) throw new TypeError();
+                if (!value.length) return "false";
+                return ref + " in (" +
+                    value.map(v => this._addParameter(v)).join(", ") + ")";
+            case "contains": case "startsWith": case "endsWith":
+                return op.toLowerCase() + "(" + ref + ", " +
+                    this._addParameter(value) + ")";
+        }
+        throw new Error("Invalid operator: " + op);
+    }
+
+    /** @internal Add a query parameter with given value, returns its name */
+    private _addParameter(value: any) {
+        var name = "@_value_" + (this._parameters.length + 1);
+        this._parameters.push({ name, value });
+        return name;
+    }
+
+    /** @internal Selected properties or values */
+    private _select = "*";
+
+    /** @internal Maximum number of results, if any */
+    private _top?: number;
+
+    /** @internal List of conditions, to be combined using AND */
+    private _conditions: string[] = [];
+
+    /** @internal List of sort expressions */
+    private _orderBy: string[] = [];
+
+    /** @internal List of query parameters */
+    private _parameters: Array<{ name: string; value: any }> = [];
+}
+
+/** @internal Returns a SQL reference to given document property */
+function propertyRef(prop: any) {
+    return `c[${JSON.stringify(String(prop))}]`;
+}
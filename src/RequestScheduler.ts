@@ -0,0 +1,163 @@
+import { CancellationSignal, CancellationError } from "./Cancellation";
+
+/** Request priority lanes: queued requests with a higher priority are always sent before requests with a lower priority; requests with the same priority are sent in order */
+export type RequestPriority = "high" | "normal" | "low";
+
+/** Options that can be passed along with request and feed options to set the priority of all requests that are made as part of an operation */
+export interface PriorityOptions {
+    /** Priority lane for all requests (defaults to `normal`, except for bulk operations which default to `low`) */
+    priority?: RequestPriority;
+}
+
+/** Statistics for a request scheduler (see `RequestScheduler.getStats`) */
+export interface RequestSchedulerStats {
+    /** Number of requests currently running */
+    running: number;
+    /** Number of requests currently waiting in the queue, per priority lane */
+    queued: { [priority in RequestPriority]: number };
+    /** Total number of requests currently waiting in the queue */
+    queueDepth: number;
+    /** Maximum total number of requests waiting in the queue at the same time */
+    maxQueueDepth: number;
+    /** Total number of requests that have been started */
+    started: number;
+    /** Total number of requests that had to wait in the queue */
+    waited: number;
+    /** Average time (ms) that requests have been waiting in the queue, including requests that did not have to wait */
+    averageWaitTime: number;
+    /** Maximum time (ms) that a request has been waiting in the queue */
+    maxWaitTime: number;
+}
+
+/** Priority lanes, in order */
+const PRIORITIES: RequestPriority[] = ["high", "normal", "low"];
+
+/** Queue-based scheduler that limits the number of concurrent requests, e.g. for a single `Client` instance (see `Client.scheduler`); queued requests are started in order of priority, and in FIFO order within the same priority lane */
+export class RequestScheduler {
+    /** Create a new scheduler with given concurrency limit */
+    constructor(concurrencyLimit = 25) {
+        this._limit = concurrencyLimit;
+    }
+
+    /** Maximum number of concurrent requests; can be changed at any time */
+    public get concurrencyLimit() { return this._limit }
+    public set concurrencyLimit(value: number) {
+        if (!(value >= 1)) throw new RangeError();
+        this._limit = value;
+        this._next();
+    }
+
+    /** Number of requests currently running */
+    public get running() { return this._running }
+
+    /** Total number of requests currently waiting in the queue */
+    public get queueDepth() {
+        return PRIORITIES.reduce((n, p) => n + this._queues[p].length, 0);
+    }
+
+    /** Returns current statistics for this scheduler */
+    public getStats(): RequestSchedulerStats {
+        return {
+            running: this._running,
+            queued: {
+                high: this._queues.high.length,
+                normal: this._queues.normal.length,
+                low: this._queues.low.length
+            },
+            queueDepth: this.queueDepth,
+            maxQueueDepth: this._maxQueueDepth,
+            started: this._started,
+            waited: this._waited,
+            averageWaitTime: this._started ? this._totalWaitTime / this._started : 0,
+            maxWaitTime: this._maxWaitTime
+        };
+    }
+
+    /** Reset all cumulative statistics (i.e. all but the number of running and queued requests) */
+    public resetStats() {
+        this._maxQueueDepth = this.queueDepth;
+        this._started = this._waited = 0;
+        this._totalWaitTime = this._maxWaitTime = 0;
+    }
+
+    /** @internal Wait for a slot to run a request with given priority; returns a promise that resolves to the time (ms) spent waiting in the queue, after which `release` MUST be called when the request is done; the promise is rejected with a `CancellationError` (and no slot is acquired) if given signal is aborted while waiting */
+    public acquireAsync(priority: RequestPriority = "normal", signal?: CancellationSignal) {
+        return new Promise<number>((resolve, reject) => {
+            if (signal && signal.aborted) return reject(new CancellationError());
+            var queue = this._queues[priority] || this._queues.normal;
+            var item = {
+                resolve: (waitTime: number) => {
+                    signal && signal.removeEventListener("abort", onAbort);
+                    resolve(waitTime);
+                },
+                queued: Date.now()
+            };
+            let onAbort = () => {
+                var index = queue.indexOf(item);
+                if (index >= 0) {
+                    queue.splice(index, 1);
+                    reject(new CancellationError());
+                }
+            };
+            queue.push(item);
+            this._next();
+            if (queue.indexOf(item) >= 0) {
+                // no slot available, need to wait
+                this._waited++;
+                var depth = this.queueDepth;
+                if (depth > this._maxQueueDepth) this._maxQueueDepth = depth;
+                signal && signal.addEventListener("abort", onAbort);
+            }
+        });
+    }
+
+    /** @internal Release a slot that was acquired using `acquireAsync` */
+    public release() {
+        if (this._running > 0) this._running--;
+        this._next();
+    }
+
+    /** @internal Start queued requests while there are slots available */
+    private _next() {
+        while (this._running < this._limit) {
+            var lane = PRIORITIES.filter(p => this._queues[p].length > 0)[0];
+            if (!lane) return;
+            var item = this._queues[lane].shift()!;
+            var waitTime = Date.now() - item.queued;
+            this._running++;
+            this._started++;
+            this._totalWaitTime += waitTime;
+            if (waitTime > this._maxWaitTime) this._maxWaitTime = waitTime;
+            item.resolve(waitTime);
+        }
+    }
+
+    /** @internal */
+    private _limit: number;
+
+    /** @internal */
+    private _running = 0;
+
+    /** @internal Queued requests for each priority lane */
+    private _queues: {
+        [priority in RequestPriority]: Array<{
+            resolve: (waitTime: number) => void;
+            queued: number;
+        }>
+    } = { high: [], normal: [], low: [] };
+
+    /** @internal */
+    private _maxQueueDepth = 0;
+
+    /** @internal */
+    private _started = 0;
+
+    /** @internal */
+    private _waited = 0;
+
+    /** @internal */
+    private _totalWaitTime = 0;
+
+    /** @internal */
+    private _maxWaitTime = 0;
+}
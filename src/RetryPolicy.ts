@@ -0,0 +1,108 @@
+/** Retry rule for a specific status code (see `RetryPolicy.statusCodes`) */
+export interface RetryRule {
+    /** Set to false to never retry requests that fail with this status code */
+    retry?: boolean;
+    /** Maximum number of retries for requests that fail with this status code (cannot exceed the maximum number of retries for the request itself) */
+    maxRetries?: number;
+    /** Initial delay (ms) before retrying requests that fail with this status code, overrides `RetryPolicy.initialDelay` */
+    initialDelay?: number;
+}
+
+/** Retry policy, which determines if and when failed requests are retried; can be set on a `Client` instance (see `Client.retryPolicy`) and overridden for individual operations using the `retryPolicy` option; properties that are not specified are taken from the client's policy, or from `defaultRetryPolicy` */
+export interface RetryPolicy {
+    /** Maximum number of retries per request, if not specified in a method call using the `maxRetries` argument (defaults to 0) */
+    maxRetries?: number;
+    /** Delay (ms) before the first retry (defaults to 100, but some operations use a longer delay unless specified) */
+    initialDelay?: number;
+    /** Factor by which the delay is multiplied for each subsequent retry, i.e. 2 for exponential backoff (defaults to 1, i.e. constant delay) */
+    backoffFactor?: number;
+    /** Maximum delay (ms) between retries (defaults to 30s) */
+    maxDelay?: number;
+    /** Random variation of each delay, as a fraction of the delay itself, e.g. 0.2 for +/- 20% (defaults to 0) */
+    jitter?: number;
+    /** Total time budget (ms) for all attempts of a single request, after which the request is no longer retried (defaults to no limit) */
+    maxRetryTime?: number;
+    /** Set to false to ignore the delay specified by the server using the `x-ms-retry-after-ms` header (e.g. for 429 responses) */
+    useRetryAfter?: boolean;
+    /** Set to false to never retry requests that time out */
+    retryOnTimeout?: boolean;
+    /** Set to true to retry requests that fail with status 404 (not found), e.g. reads of documents that have just been created, when using a consistency level lower than session consistency; set to false to never retry 404 errors (by default, only some operations retry 404 errors, i.e. finding or deleting documents by ID) */
+    retryOn404?: boolean;
+    /** Retry rules for specific status codes (rules for status codes 400, 401, 403, 404, 409, 412, and 413 are set to `false` by default, i.e. these are not retried) */
+    statusCodes?: { [statusCode: number]: RetryRule | boolean };
+}
+
+/** Options that can be passed along with request and feed options to override the retry policy for all requests that are made as part of an operation */
+export interface RetryOptions {
+    /** Retry policy for this operation (merged with the client's retry policy) */
+    retryPolicy?: RetryPolicy;
+}
+
+/** Default retry policy, used for properties that are not specified by the client's policy, or the policy for an operation */
+export const defaultRetryPolicy: Readonly<RetryPolicy> = {
+    maxRetries: 0,
+    initialDelay: 100,
+    backoffFactor: 1,
+    maxDelay: 30000,
+    jitter: 0,
+    useRetryAfter: true,
+    retryOnTimeout: true,
+    statusCodes: {
+        400: false, 401: false, 403: false, 404: false,
+        409: false, 412: false, 413: false
+    }
+};
+
+/** Returns a retry policy that combines given policies, i.e. with properties taken from the last policy that specifies them (status code rules are merged) */
+export function mergeRetryPolicies(...policies: Array<RetryPolicy | undefined>) {
+    var result: RetryPolicy = {};
+    for (var policy of policies) {
+        if (!policy) continue;
+        var statusCodes = Object.assign({}, result.statusCodes, policy.statusCodes);
+        Object.assign(result, policy);
+        result.statusCodes = statusCodes;
+    }
+    return result;
+}
+
+/** @internal Returns the delay (ms) before retrying a request that failed with given error (or timed out, if no error is given), or -1 if the request should not be retried; given policy must be complete, i.e. merged with the default policy */
+export function getRetryDelay(policy: RetryPolicy, retryCount: number,
+    elapsed: number, err?: any, headers?: { [name: string]: string },
+    retryOn404?: boolean) {
+    var maxRetries = policy.maxRetries || 0;
+    var delay = policy.initialDelay!;
+    if (!err) {
+        if (policy.retryOnTimeout === false) return -1;
+    }
+    else {
+        var rule = policy.statusCodes![err.code];
+        if (err.code === 404) {
+            if (policy.retryOn404 !== undefined) retryOn404 = policy.retryOn404;
+            if (retryOn404) rule = true;
+        }
+        if (rule === false || (rule && rule !== true && rule.retry === false))
+            return -1;
+        if (rule && rule !== true) {
+            if (rule.maxRetries !== undefined && rule.maxRetries < maxRetries)
+                maxRetries = rule.maxRetries;
+            if (rule.initialDelay !== undefined) delay = rule.initialDelay;
+        }
+    }
+    if (retryCount >= maxRetries) return -1;
+
+    // use retry-after header if possible, otherwise back off
+    var retryAfter = headers && parseFloat(headers["x-ms-retry-after-ms"]);
+    if (policy.useRetryAfter !== false && retryAfter && retryAfter > 0) {
+        delay = retryAfter;
+    }
+    else {
+        delay *= Math.pow(policy.backoffFactor || 1, retryCount);
+        if (delay > policy.maxDelay!) delay = policy.maxDelay!;
+        if (policy.jitter)
+            delay *= 1 + policy.jitter * (Math.random() * 2 - 1);
+    }
+    delay = Math.max(0, Math.round(delay));
+    if (policy.maxRetryTime !== undefined && elapsed + delay > policy.maxRetryTime)
+        return -1;
+    return delay;
+}
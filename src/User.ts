@@ -0,0 +1,178 @@
+import * as _DocumentDB from "./_DocumentDB";
+import { Database } from "./Database";
+import { Collection, AllOptions } from "./Collection";
+import { curryPromise } from "./Util";
+import { cancellableSleepAsync } from "./Cancellation";
+import { NotFoundError } from "./Errors";
+
+/** Permission mode constants: `Read` for read-only access, `All` for full access */
+export type PermissionMode = "Read" | "All";
+
+/** Represents a DocumentDB database user, which can be granted permissions on collections and documents; the resulting permission resources contain resource tokens that can be used to create a client with limited access (see `Client.fromResourceTokens`) */
+export class User {
+    /** Refer to a user by name, in given database */
+    constructor(id: string, database: Database);
+    /** @internal Refer to a user by name, in given database and with given self link */
+    constructor(id: string, database: Database, selfLink: string);
+    constructor(id: string, database: Database, selfLink?: string) {
+        if (!id) throw new Error("Users must have a name");
+        this.id = id;
+        this.database = database;
+        this._self = selfLink;
+    }
+
+    /** The name of the user that this instance refers to */
+    public readonly id: string;
+
+    /** The database used for all operations */
+    public readonly database: Database;
+
+    /** The partial resource URI for this user, i.e. `"/dbs/.../users/..."` */
+    public get path() {
+        return this._self ||
+            "dbs/" + this.database.id + "/users/" + encodeURIComponent(this.id);
+    }
+
+    /** Open and validate the connection, check that this user exists */
+    public async openAsync(maxRetries?: number, options?: AllOptions) {
+        if (this._self) return this;
+        await this.database.openAsync(maxRetries, options);
+        let tryGetUser = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Reading user " + this.path) &&
+            this.database.client.documentClient.readUser(
+                this.path, options, callback);
+        var resource = await curryPromise<_DocumentDB.UserResource>(tryGetUser,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this.database.client._context("User.openAsync", options))();
+        this._self = resource._self;
+        return this;
+    }
+
+    /** Open and validate the connection, find or create user resource */
+    public async openOrCreateAsync(maxRetries?: number,
+        options?: AllOptions) {
+        if (this._self) return this;
+        await this.database.openAsync(maxRetries, options);
+        var resource: _DocumentDB.UserResource;
+        try {
+            let tryGetUser = (callback: (err: any, result: any) => void) =>
+                this.database.client.log("Reading user " + this.path) &&
+                this.database.client.documentClient.readUser(
+                    this.path, options, callback);
+            resource = await curryPromise<_DocumentDB.UserResource>(tryGetUser,
+                this.database.client.timeout, maxRetries, undefined, undefined,
+                this.database.client._context("User.openOrCreateAsync", options))();
+        }
+        catch (err) {
+            if (err.code != 404 /* not found */) throw err;
+            try {
+                let tryCreateUser = (callback: (err: any, result: any) => void) =>
+                    this.database.client.log("Creating user " + this.id) &&
+                    this.database.client.documentClient.createUser(
+                        this.database.path, { id: this.id }, options, callback);
+                resource = await curryPromise<_DocumentDB.UserResource>(
+                    tryCreateUser, this.database.client.timeout, undefined,
+                    undefined, undefined,
+                    this.database.client._context("User.openOrCreateAsync", options))();
+            }
+            catch (err) {
+                if (err.code == 409 /* conflict */) {
+                    this.database.client.log("User conflict, retrying...");
+                    await cancellableSleepAsync(1000, options && options.signal);
+                    return await this.openAsync(maxRetries, options);
+                }
+                throw err;
+            }
+        }
+        this._self = resource._self;
+        return this;
+    }
+
+    /** Get a list of all permissions granted to this user, including resource tokens */
+    public async listPermissionsAsync(maxRetries?: number,
+        options?: AllOptions) {
+        await this.openAsync(maxRetries, options);
+        let tryListAll = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Reading permissions for " + this.id) &&
+            this.database.client.documentClient.readPermissions(
+                this._self!, options).toArray(callback);
+        return await curryPromise<_DocumentDB.PermissionResource[]>(tryListAll,
+            this.database.client.timeout, maxRetries, undefined, undefined,
+            this.database.client._context("User.listPermissionsAsync", options))();
+    }
+
+    /** Grant this user access to given collection or document (must have a `_self` property, e.g. the result of `Collection.storeDocumentAsync` or `Collection.findDocumentAsync`); replaces any existing permission with the same ID, which is derived from the resource ID unless specified; returns the permission resource, including its resource token (`_token`); use the `resourceTokenExpirySeconds` option to specify the lifetime of the token */
+    public async grantAsync(target: Collection | { _self: string },
+        mode: PermissionMode = "Read", permissionId?: string,
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync(maxRetries, options);
+        var link = await this._getResourceLink(target, maxRetries, options);
+        var id = permissionId || this._getPermissionId(link);
+        let tryUpsert = (callback: (err: any, result: any) => void) =>
+            this.database.client.log(`Granting ${mode} permission to ${this.id} on ${link}`) &&
+            this.database.client.documentClient.upsertPermission(this._self!,
+                { id, permissionMode: mode, resource: link }, options, callback);
+        return await curryPromise<_DocumentDB.PermissionResource>(
+            tryUpsert, this.database.client.timeout, maxRetries, undefined, undefined,
+            this.database.client._context("User.grantAsync", options))();
+    }
+
+    /** Revoke the permission with given ID, or all permissions on given collection or document (must have a `_self` property); returns the number of permissions that have been revoked, i.e. 0 if this user did not have any permissions on given collection or document */
+    public async revokeAsync(target: string | Collection | { _self: string },
+        maxRetries?: number, options?: AllOptions) {
+        await this.openAsync(maxRetries, options);
+        var permissions = await this.listPermissionsAsync(maxRetries, options);
+        if (typeof target === "string") {
+            permissions = permissions.filter(p => p.id === target);
+            if (!permissions.length) throw new NotFoundError();
+        }
+        else {
+            var link = await this._getResourceLink(target, maxRetries, options);
+            permissions = permissions.filter(p => p.resource === link);
+        }
+        for (var permission of permissions) {
+            let self = permission._self;
+            let tryDelete = (callback: (err: any, result: any) => void) =>
+                this.database.client.log("Revoking permission: " + self) &&
+                this.database.client.documentClient.deletePermission(
+                    self, options, callback);
+            await curryPromise(tryDelete, this.database.client.timeout,
+                maxRetries, 500, true,
+                this.database.client._context("User.revokeAsync", options))();
+        }
+        return permissions.length;
+    }
+
+    /** Delete this user (along with all of its permissions) */
+    public async deleteAsync(maxRetries?: number, options?: AllOptions) {
+        await this.openAsync(maxRetries, options);
+        let tryDelete = (callback: (err: any, result: any) => void) =>
+            this.database.client.log("Deleting user: " + this.id) &&
+            this.database.client.documentClient.deleteUser(
+                this._self!, options, callback);
+        await curryPromise(tryDelete, this.database.client.timeout, maxRetries,
+            undefined, undefined,
+            this.database.client._context("User.deleteAsync", options))();
+        delete this._self;
+    }
+
+    /** @internal Helper function that returns the self link for given collection or document */
+    private async _getResourceLink(target: Collection | { _self: string },
+        maxRetries?: number, options?: AllOptions) {
+        if (target instanceof Collection) {
+            await target.openAsync(maxRetries, options);
+            return target.path;
+        }
+        if (!target || !target._self) throw new Error("Resource _self missing");
+        return target._self;
+    }
+
+    /** @internal Helper function that returns a permission ID for given resource link (i.e. the last resource ID in the link) */
+    private _getPermissionId(link: string) {
+        var parts = link.replace(/\/+$/, "").split("/");
+        return parts[parts.length - 1];
+    }
+
+    /** @internal Self link */
+    private _self?: string;
+}
@@ -1,34 +1,100 @@
-import { Client } from "./Client";
+import * as _DocumentDB from "./_DocumentDB";
+import { Client, ResponseInfo, ClientEvent } from "./Client";
+import { RequestScheduler, RequestPriority } from "./RequestScheduler";
+import { RetryPolicy, defaultRetryPolicy, mergeRetryPolicies, getRetryDelay } from "./RetryPolicy";
+import { CancellationSignal, CancellationError } from "./Cancellation";
+import { TimeoutError, toDocumentDBError } from "./Errors";
 
-/** Current number of pending requests */
-var _pending = 0;
+/** Scheduler used for requests without a context */
+var _defaultScheduler: RequestScheduler | undefined;
 
-/** Return a curried version of given function that appends a callback as a last parameter, which rejects or resolves a promise; the promise is returned immediately; also handles DocumentDB errors when possible */
+/** @internal Context for requests made using `curryPromise` (see `Client._context`) */
+export interface RequestContext {
+    /** Name of the operation, for events */
+    operation: string;
+    /** Scheduler used to limit concurrent requests */
+    scheduler: RequestScheduler;
+    /** Request priority, if any */
+    priority?: RequestPriority;
+    /** Retry policy (i.e. the client's retry policy merged with the policy for this operation), if any */
+    retryPolicy?: RetryPolicy;
+    /** Cancellation signal, if any */
+    signal?: CancellationSignal;
+    /** Function that is called with the response headers for every attempt */
+    onResponse(headers?: { [name: string]: string }): void;
+    /** Function that is called for every request event */
+    onEvent(event: ClientEvent): void;
+}
+
+/** Return a curried version of given function that appends a callback as a last parameter, which rejects or resolves a promise; the promise is returned immediately; requests are scheduled using the scheduler in given context (or a default scheduler), can be cancelled using the signal in given context (if any), and are retried according to the retry policy in given context, with given arguments taking precedence (i.e. `maxRetries`, if specified, and `retryTimer` and `retryOn404` as defaults for the initial delay and 404 retries); also converts DocumentDB errors to `DocumentDBError` instances when possible, and passes response headers and events for every attempt to given context, if any */
 export function curryPromise<T>(f: Function, timeout = 60000,
-    maxRetries = 0, retryTimer?: number, retryOn404?: boolean) {
+    maxRetries?: number, retryTimer?: number, retryOn404?: boolean,
+    context?: RequestContext) {
+    var scheduler = context ? context.scheduler : (_defaultScheduler ||
+        (_defaultScheduler = new RequestScheduler(Client.concurrencyLimit)));
+    var policy = mergeRetryPolicies(defaultRetryPolicy,
+        retryTimer !== undefined ? { initialDelay: retryTimer } : undefined,
+        context && context.retryPolicy,
+        maxRetries !== undefined ? { maxRetries } : undefined);
     return (...args: any[]): Promise<T> => {
         // return Promise for result or error
         var started = false, done: any;
-        var retries = maxRetries, timeoutTimer: any;
+        var retryCount = 0, timeoutTimer: any, retryTimeout: any;
+        var signal = context && context.signal;
+        let onAbort = () => {
+            if (done) return;
+            done = new CancellationError();
+            clearTimeout(timeoutTimer);
+            clearTimeout(retryTimeout);
+            rejectAll(done);
+            emit({ type: "failure", error: done });
+        };
+        var rejectAll: (err: any) => void;
+        var attempt = 0, attemptStarted = 0, waitTime = 0, firstStarted = 0;
+        let emit = (event: any) => {
+            if (!context) return;
+            event.operation = context.operation;
+            event.attempt = attempt;
+            if (event.type === "start") event.waitTime = attempt > 1 ? 0 : waitTime;
+            else if (event.type !== "throttled")
+                event.duration = Date.now() - attemptStarted;
+            context.onEvent(event);
+        };
         return new Promise<T>(function exec(resolve, reject) {
             if (done) return;
             if (!started) {
-                if (_pending >= Client.concurrencyLimit) {
-                    setTimeout(exec, retryTimer || 100, resolve, reject);
-                    return;
-                }
-                _pending++;
-                started = true;
+                // wait for the scheduler first, then run again
+                rejectAll = reject;
+                scheduler.acquireAsync(context && context.priority, signal).then(t => {
+                    started = true;
+                    waitTime = t;
+                    firstStarted = Date.now();
+                    if (signal) {
+                        signal.addEventListener("abort", onAbort);
+                        if (signal.aborted) return onAbort();
+                    }
+                    exec(resolve, reject);
+                }, reject);
+                return;
             }
+            attempt++;
+            attemptStarted = Date.now();
+            emit({ type: "start" });
 
             // set timeout timer, reject when reached
             function setTimeoutTimer() {
                 let t = timeoutTimer = setTimeout(() => {
-                    if (t === timeoutTimer) {
-                        if (retries-- > 0)
-                            retry();
-                        else
-                            reject(done = new Error("Timeout"));
+                    if (t === timeoutTimer && !done) {
+                        var delay = getRetryDelay(policy, retryCount,
+                            Date.now() - firstStarted);
+                        emit({ type: "timeout", willRetry: delay >= 0 });
+                        if (delay >= 0) {
+                            retry(delay);
+                        }
+                        else {
+                            reject(done = new TimeoutError());
+                            emit({ type: "failure", error: done });
+                        }
                     }
                 }, timeout);
             }
@@ -37,39 +103,43 @@ export function curryPromise<T>(f: Function, timeout = 60000,
                 timeoutTimer = undefined;
             }
             var retried = false;
-            function retry(err?: any, headers?: any) {
+            function retry(t: number, err?: any) {
                 if (retried) return;
                 retried = true;
+                retryCount++;
                 clearTimeoutTimer();
-                var t = retryTimer || 100;
-                if (err && err.code === 429 &&
-                    headers && headers["x-ms-retry-after-ms"])
-                    t = parseFloat(headers["x-ms-retry-after-ms"]);
-                setTimeout(exec, t, resolve, reject);
+                if (err && err.code === 429)
+                    emit({ type: "throttled", retryAfter: t, error: err });
+                else
+                    emit({
+                        type: "retry", delay: t, error: err,
+                        reason: err ? "Error " + err.code : "Timeout"
+                    });
+                retryTimeout = setTimeout(exec, t, resolve, reject);
             }
             setTimeoutTimer();
 
-            // append own callback
-            args.push((err: any, result: any, headers?: any) => {
+            // append own callback (to a copy of the arguments, since this
+            // function runs again for every retry)
+            var callArgs = args.slice();
+            callArgs.push((err: any, result: any, headers?: any) => {
+                // ignore late responses (e.g. after cancellation)
+                if (done) return;
+                if (context) context.onResponse(headers);
                 if (err) {
-                    // retry or reject
-                    if (err.code !== 400 && err.code !== 401 &&
-                        err.code !== 403 && (retryOn404 || err.code !== 404) &&
-                        err.code !== 409 && err.code !== 412 &&
-                        err.code !== 413 && retries-- > 0) {
-                        retry(err, headers);
+                    // retry or reject (unless already retrying after a timeout)
+                    if (retried) return;
+                    var delay = getRetryDelay(policy, retryCount,
+                        Date.now() - firstStarted, err, headers, retryOn404);
+                    if (delay >= 0) {
+                        retry(delay, err);
                     }
                     else {
-                        var error: Error | undefined, body: any;
-                        try { body = JSON.parse(err.body) } catch (all) { }
-                        if (body) {
-                            error = new Error(body.message || "Database error");
-                            (<any>error).code = err.code;
-                            error.name = body.code;
-                        }
-                        reject(error || err);
+                        var error = toDocumentDBError(err, headers);
+                        reject(error);
                         done = true;
                         clearTimeoutTimer();
+                        emit({ type: "failure", error });
                     }
                 }
                 else {
@@ -77,29 +147,141 @@ export function curryPromise<T>(f: Function, timeout = 60000,
                     resolve(result);
                     done = true;
                     clearTimeoutTimer();
+                    emit({
+                        type: "success",
+                        requestCharge: headers ?
+                            getResponseInfo(headers).requestCharge : 0
+                    });
                 }
             });
             try {
-                f.apply(undefined, args);
+                f.apply(undefined, callArgs);
             }
             catch (err) {
                 reject(err);
+                done = true;
+                clearTimeoutTimer();
+                emit({ type: "failure", error: err });
             }
         }).then(
             result => {
-                if (started) _pending--;
+                signal && signal.removeEventListener("abort", onAbort);
+                if (started) scheduler.release();
                 return result;
             },
             err => {
-                if (started) _pending--;
+                signal && signal.removeEventListener("abort", onAbort);
+                if (started) scheduler.release();
                 throw err;
             });
     };
 }
 
+/** Returns response information for given response headers */
+export function getResponseInfo(headers: { [name: string]: string }): ResponseInfo {
+    return {
+        requestCharge: parseFloat(headers["x-ms-request-charge"]) || 0,
+        activityId: headers["x-ms-activity-id"],
+        sessionToken: headers["x-ms-session-token"],
+        resourceQuota: headers["x-ms-resource-quota"],
+        resourceUsage: headers["x-ms-resource-usage"],
+        headers
+    };
+}
+
+/** Returns a promise for a Buffer with all data from given readable stream (or given Buffer itself) */
+export function readBufferAsync(body: Buffer | NodeJS.ReadableStream) {
+    if (Buffer.isBuffer(body)) return Promise.resolve(body);
+    return new Promise<Buffer>((resolve, reject) => {
+        var chunks: Buffer[] = [];
+        body.on("data", (chunk: Buffer | string) => {
+            chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+        });
+        body.on("end", () => resolve(Buffer.concat(chunks)));
+        body.on("error", reject);
+    });
+}
+
+/** Returns a session token that combines given session tokens, i.e. with the highest LSN for each partition key range (tokens are formatted as `{range ID}:{LSN}` or `{range ID}:{version}#{LSN}#...`, separated by commas) */
+export function mergeSessionTokens(a: string | undefined, b: string) {
+    if (!a) return b;
+    var getLSN = (value: string) => {
+        var parts = value.split("#");
+        return parseFloat(parts.length > 1 ? parts[1] : parts[0]) || 0;
+    };
+    var ranges: { [rangeId: string]: string } = {};
+    for (var token of (a + "," + b).split(",")) {
+        var i = token.indexOf(":");
+        if (i < 0) continue;
+        var rangeId = token.slice(0, i), value = token.slice(i + 1);
+        if (ranges[rangeId] === undefined ||
+            getLSN(value) > getLSN(ranges[rangeId]))
+            ranges[rangeId] = value;
+    }
+    return Object.keys(ranges).map(id => id + ":" + ranges[id]).join(",");
+}
+
+/** Returns true if given (current) indexing policy matches the desired policy, i.e. if `automatic` and the indexing mode are the same (if specified in the desired policy), and the included paths with their indexes and the excluded paths are the same (if specified); property names and values other than paths are compared case-insensitively, index precision is only compared if specified in the desired policy, and the system path for `_etag` is ignored */
+export function indexingPolicyMatches(current: _DocumentDB.IndexingPolicy,
+    desired: _DocumentDB.IndexingPolicy) {
+    let normalize = (value: any): any => {
+        if (Array.isArray(value)) return value.map(normalize);
+        if (!(value instanceof Object)) return value;
+        var result: any = {};
+        for (var key in value) {
+            var v = value[key], k = key.toLowerCase();
+            result[k] = typeof v === "string" && k !== "path" ?
+                v.toLowerCase() : normalize(v);
+        }
+        return result;
+    };
+    let isSystemPath = (path: any) => path === "/\"_etag\"/?";
+    let getPaths = (list: any[]) => list.map(p => String(p.path))
+        .filter(path => !isSystemPath(path)).sort();
+    let indexesMatch = (c: any[] = [], d: any[] = []) =>
+        c.length === d.length && d.every(x => c.some(y =>
+            y.kind === x.kind && y.datatype === x.datatype &&
+            (x.precision === undefined || y.precision === x.precision)));
+    var a = normalize(current || {}), b = normalize(desired || {});
+    if (b.automatic !== undefined && a.automatic !== b.automatic) return false;
+    if (b.indexingmode !== undefined && a.indexingmode !== b.indexingmode) return false;
+    if (b.includedpaths) {
+        var included: any[] = a.includedpaths || [];
+        if (getPaths(included).join() !== getPaths(b.includedpaths).join() ||
+            !b.includedpaths.every((d: any) => {
+                if (isSystemPath(d.path)) return true;
+                var match = included.filter(c => c.path === d.path)[0];
+                return !!match && indexesMatch(match.indexes, d.indexes);
+            }))
+            return false;
+    }
+    if (b.excludedpaths && getPaths(a.excludedpaths || []).join() !==
+        getPaths(b.excludedpaths).join()) return false;
+    return true;
+}
+
 /** Return a promise that resolves after a given timeout */
 export function sleepAsync(ms: number, value: any = undefined) {
     return new Promise(resolve => {
         setTimeout(() => resolve(value), ms);
     });
-}
\ No newline at end of file
+}
+
+/** Returns the value of the document property referenced by given partition key definition (i.e. its first path, e.g. `/address/zipCode`), or undefined if the document does not have this property */
+export function getPartitionKeyValue(definition: _DocumentDB.PartitionKeyDefinition,
+    doc: any) {
+    var path = definition.paths && definition.paths[0];
+    if (!path) return undefined;
+    var parts = path.replace(/^\//, "").split("/").map(part => {
+        var quoted = /^(["'])(.*)\1$/.exec(part);
+        return quoted ? quoted[2] : part;
+    });
+    var value = doc;
+    for (var part of parts) {
+        if (!(value instanceof Object) ||
+            !Object.prototype.hasOwnProperty.call(value, part))
+            return undefined;
+        value = value[part];
+    }
+    return value;
+}
@@ -8,18 +8,24 @@ export const DocumentClient: {
 
 /** A DocumentClient instance */
 export interface DocumentClient {
+    /** Headers that are included with every request (copied when a request is made) */
+    defaultHeaders?: { [name: string]: string };
     createCollection(dbLink: string, body: Partial<CollectionResource> & Identifiable, options: RequestOptions | undefined, callback: Callback<CollectionResource>): void;
     createDatabase(body: Partial<DatabaseResource> & Identifiable, options: RequestOptions | undefined, callback: Callback<DatabaseResource>): void;
     createDocument(collectionLink: string, body: Partial<DocumentResource>, options: RequestOptions | undefined, callback: Callback<DocumentResource>): void;
     createPermission(userLink: string, body: Partial<PermissionResource>, options: RequestOptions | undefined, callback: Callback<PermissionResource>): void;
     createStoredProcedure(collectionLink: string, sproc: WriteSprocResource & Identifiable, options: RequestOptions | undefined, callback: Callback<SprocResource>): void;
+    createTrigger(collectionLink: string, trigger: WriteTriggerResource, options: RequestOptions | undefined, callback: Callback<TriggerResource>): void;
     createUser(dbLink: string, body: Partial<UserResource> & Identifiable, options: RequestOptions | undefined, callback: Callback<UserResource>): void;
+    createUserDefinedFunction(collectionLink: string, udf: WriteUdfResource, options: RequestOptions | undefined, callback: Callback<UdfResource>): void;
     deleteCollection(collectionLink: string, options: RequestOptions | undefined, callback: Callback<any>): void;
     deleteDatabase(dbLink: string, options: RequestOptions | undefined, callback: Callback<any>): void;
     deleteDocument(documentLink: string, options: RequestOptions | undefined, callback: Callback<any>): void;
     deletePermission(permissionLink: string, options: RequestOptions | undefined, callback: Callback<any>): void;
     deleteStoredProcedure(sprocLink: string, options: RequestOptions | undefined, callback: Callback<any>): void;
+    deleteTrigger(triggerLink: string, options: RequestOptions | undefined, callback: Callback<any>): void;
     deleteUser(userLink: string, options: RequestOptions | undefined, callback: Callback<any>): void;
+    deleteUserDefinedFunction(udfLink: string, options: RequestOptions | undefined, callback: Callback<any>): void;
     executeStoredProcedure(sprocLink: string, params: any[], options: RequestOptions | undefined, callback: Callback<any>): void;
     getDatabaseAccount(callback: (error: ClientError, databaseAccount: DatabaseAccount) => void): void;
     getReadEndpoint(callback: (url: string) => void): void;
@@ -31,7 +37,9 @@ export interface DocumentClient {
     queryOffers(query: SqlQuery, options?: FeedOptions): QueryIterator<OfferResource>;
     queryPermissions(userLink: string, query: SqlQuery, options?: FeedOptions): QueryIterator<PermissionResource>;
     queryStoredProcedures(collectionLink: string, query: SqlQuery, options?: FeedOptions): QueryIterator<SprocResource>;
+    queryTriggers(collectionLink: string, query: SqlQuery, options?: FeedOptions): QueryIterator<TriggerResource>;
     queryUsers(dbLink: string, query: SqlQuery, options?: FeedOptions): QueryIterator<UserResource>;
+    queryUserDefinedFunctions(collectionLink: string, query: SqlQuery, options?: FeedOptions): QueryIterator<UdfResource>;
     readCollection(collectionLink: string, options: RequestOptions | undefined, callback: Callback<CollectionResource>): void;
     readCollections(dbLink: string, options?: FeedOptions): QueryIterator<CollectionResource>;
     readConflict(conflictLink: string, options: RequestOptions | undefined, callback: Callback<Resource>): void;
@@ -42,50 +50,47 @@ export interface DocumentClient {
     readDocuments(collectionLink: string, options?: FeedOptions): QueryIterator<DocumentResource>;
     readOffer(offerLink: string, callback: Callback<OfferResource>): void;
     readOffers(options?: FeedOptions): QueryIterator<OfferResource>;
+    readPartitionKeyRanges(collectionLink: string, options?: FeedOptions): QueryIterator<PartitionKeyRangeResource>;
     readPermission(permissionLink: string, options: RequestOptions | undefined, callback: Callback<PermissionResource>): void;
     readPermissions(userLink: string, options?: FeedOptions): QueryIterator<PermissionResource>;
     readStoredProcedure(sprocLink: string, options: RequestOptions | undefined, callback: Callback<SprocResource>): void;
     readStoredProcedures(collectionLink: string, options?: FeedOptions): QueryIterator<SprocResource>;
+    readTrigger(triggerLink: string, options: RequestOptions | undefined, callback: Callback<TriggerResource>): void;
+    readTriggers(collectionLink: string, options?: FeedOptions): QueryIterator<TriggerResource>;
     readUser(userLink: string, options: RequestOptions | undefined, callback: Callback<UserResource>): void;
     readUsers(dbLink: string, options?: FeedOptions): QueryIterator<UserResource>;
+    readUserDefinedFunction(udfLink: string, options: RequestOptions | undefined, callback: Callback<UdfResource>): void;
+    readUserDefinedFunctions(collectionLink: string, options?: FeedOptions): QueryIterator<UdfResource>;
     replaceDocument(documentLink: string, document: Partial<DocumentResource> & Identifiable, options: RequestOptions | undefined, callback: Callback<DocumentResource>): void;
     replaceOffer(offerLink: string, offer: OfferResource, callback: Callback<OfferResource>): void;
     replacePermission(permissionLink: string, permission: PermissionResource, options: RequestOptions | undefined, callback: Callback<PermissionResource>): void;
     replaceStoredProcedure(sprocLink: string, sproc: SprocResource, options: RequestOptions | undefined, callback: Callback<SprocResource>): void;
+    replaceTrigger(triggerLink: string, trigger: WriteTriggerResource, options: RequestOptions | undefined, callback: Callback<TriggerResource>): void;
     replaceUser(userLink: string, user: UserResource, options: RequestOptions | undefined, callback: Callback<UserResource>): void;
+    replaceUserDefinedFunction(udfLink: string, udf: WriteUdfResource, options: RequestOptions | undefined, callback: Callback<UdfResource>): void;
     upsertDocument(collectionLink: string, body: Partial<DocumentResource>, options: RequestOptions | undefined, callback: Callback<DocumentResource>): void;
     upsertPermission(userLink: string, body: Partial<PermissionResource> & Identifiable, options: RequestOptions | undefined, callback: Callback<PermissionResource>): void;
     upsertStoredProcedure(collectionLink: string, sproc: Partial<SprocResource> & Identifiable, options: RequestOptions | undefined, callback: Callback<SprocResource>): void;
+    upsertTrigger(collectionLink: string, trigger: WriteTriggerResource, options: RequestOptions | undefined, callback: Callback<TriggerResource>): void;
     upsertUser(dbLink: string, body: Partial<UserResource> & Identifiable, options: RequestOptions | undefined, callback: Callback<UserResource>): void;
+    upsertUserDefinedFunction(collectionLink: string, udf: WriteUdfResource, options: RequestOptions | undefined, callback: Callback<UdfResource>): void;
+
+    createAttachment(documentLink: string, body: WriteAttachmentResource, options: RequestOptions | undefined, callback: Callback<AttachmentResource>): void;
+    createAttachmentAndUploadMedia(documentLink: string, readableStream: MediaBody, options: MediaOptions | undefined, callback: Callback<AttachmentResource>): void;
+    deleteAttachment(attachmentLink: string, options: RequestOptions | undefined, callback: Callback<any>): void;
+    queryAttachments(documentLink: string, query: SqlQuery, options?: FeedOptions): QueryIterator<AttachmentResource>;
+    readAttachment(attachmentLink: string, options: RequestOptions | undefined, callback: Callback<AttachmentResource>): void;
+    readAttachments(documentLink: string, options?: FeedOptions): QueryIterator<AttachmentResource>;
+    readMedia(mediaLink: string, callback: (error: ClientError, result: Buffer | NodeJS.ReadableStream, responseHeaders: {}) => void): void;
+    replaceAttachment(attachmentLink: string, attachment: WriteAttachmentResource, options: RequestOptions | undefined, callback: Callback<AttachmentResource>): void;
+    updateMedia(mediaLink: string, readableStream: MediaBody, options: MediaOptions | undefined, callback: (error: ClientError, result: any, responseHeaders: {}) => void): void;
+    upsertAttachment(documentLink: string, body: WriteAttachmentResource, options: RequestOptions | undefined, callback: Callback<AttachmentResource>): void;
+    upsertAttachmentAndUploadMedia(documentLink: string, readableStream: MediaBody, options: MediaOptions | undefined, callback: Callback<AttachmentResource>): void;
+
+    replaceCollection(collectionLink: string, body: Partial<CollectionResource> & Identifiable, options: RequestOptions | undefined, callback: Callback<CollectionResource>): void;
 
     // TODO: add typings for these methods:
-    createAttachment: any;
-    createAttachmentAndUploadMedia: any;
-    createTrigger: any;
-    createUserDefinedFunction: any;
-    deleteAttachment: any;
     deleteConflict: any;
-    deleteTrigger: any;
-    deleteUserDefinedFunction: any;
-    queryAttachments: any;
-    queryTriggers: any;
-    queryUserDefinedFunctions: any;
-    readAttachment: any;
-    readAttachments: any;
-    readMedia: any;
-    readTrigger: any;
-    readTriggers: any;
-    readUserDefinedFunction: any;
-    readUserDefinedFunctions: any;
-    replaceAttachment: any;
-    replaceCollection: any;
-    replaceTrigger: any;
-    replaceUserDefinedFunction: any;
-    updateMedia: any;
-    upsertAttachment: any;
-    upsertAttachmentAndUploadMedia: any;
-    upsertTrigger: any;
-    upsertUserDefinedFunction: any;
 }
 
 /** Callback as used by DocumentClient */
@@ -130,6 +135,37 @@ export interface DocumentResource extends Resource {
     ttl?: number;
 }
 
+/** Attachment resource, i.e. a reference to media that is either stored with the document (uploaded as a Buffer or stream) or stored externally; may include other custom properties */
+export interface AttachmentResource extends Resource {
+    /** MIME content type of the attached media */
+    contentType: string;
+    /** Link to the media, i.e. a media link for uploaded media (see `DocumentClient.readMedia`), or an external URL */
+    media: string;
+    /** Other (custom) properties */
+    [property: string]: any;
+}
+
+/** Attachment resource properties for creating or replacing an attachment that refers to externally stored media */
+export type WriteAttachmentResource = Partial<AttachmentResource> & {
+    /** Unique attachment ID */
+    id: string;
+    /** MIME content type of the attached media */
+    contentType: string;
+    /** Link to the media, e.g. an external URL */
+    media: string;
+};
+
+/** Media content that can be uploaded as an attachment: either a Buffer or a readable stream */
+export type MediaBody = Buffer | NodeJS.ReadableStream;
+
+/** Options for uploading media */
+export interface MediaOptions extends RequestOptions {
+    /** ID of the attachment to be created (i.e. the `Slug` header) */
+    slug?: string;
+    /** MIME content type of the media, defaults to `application/octet-stream` */
+    contentType?: string;
+}
+
 /** Database resource */
 export interface DatabaseResource extends Resource {
     /** System generated addressable path for the collections resource */
@@ -164,6 +200,8 @@ export interface PermissionResource extends Resource {
     permissionMode: "Read" | "All";
     /** Full addressable path of the resource associated with the permission */
     resource: string;
+    /** System generated resource token for the resource associated with the permission */
+    _token: string;
 };
 
 /** Stored procedure resource */
@@ -187,6 +225,66 @@ export type WriteSprocResource = Partial<SprocResource> & {
     body: string;
 };
 
+/** Trigger type: `Pre` triggers run before, and `Post` triggers run after an operation */
+export type TriggerType = "Pre" | "Post";
+
+/** Operation(s) for which a trigger can be included */
+export type TriggerOperation = "All" | "Create" | "Replace" | "Delete";
+
+/** Trigger resource */
+export interface TriggerResource extends Resource {
+    /** The unique name of this trigger */
+    id: string;
+    /** The trigger function as a string */
+    body: string;
+    /** The trigger type (Pre or Post) */
+    triggerType: TriggerType;
+    /** The operation(s) for which this trigger can be used */
+    triggerOperation: TriggerOperation;
+}
+
+/** Trigger resource, with script as a JavaScript function */
+export type WriteTriggerResource = Partial<TriggerResource> & {
+    /** The unique name of this trigger */
+    id: string;
+    /** The trigger type (Pre or Post) */
+    triggerType: TriggerType;
+    /** The operation(s) for which this trigger can be used */
+    triggerOperation: TriggerOperation;
+    /** The trigger function as a JavaScript Function instance */
+    serverScript: Function;
+} | Partial<TriggerResource> & {
+    /** The unique name of this trigger */
+    id: string;
+    /** The trigger type (Pre or Post) */
+    triggerType: TriggerType;
+    /** The operation(s) for which this trigger can be used */
+    triggerOperation: TriggerOperation;
+    /** The trigger function as a string */
+    body: string;
+};
+
+/** User defined function resource */
+export interface UdfResource extends Resource {
+    /** The unique name of this user defined function */
+    id: string;
+    /** The user defined function as a string */
+    body: string;
+}
+
+/** User defined function resource, with script as a JavaScript function */
+export type WriteUdfResource = Partial<UdfResource> & {
+    /** The unique name of this user defined function */
+    id: string;
+    /** The user defined function as a JavaScript Function instance */
+    serverScript: Function;
+} | Partial<UdfResource> & {
+    /** The unique name of this user defined function */
+    id: string;
+    /** The user defined function as a string */
+    body: string;
+};
+
 /** Offer (throughput provisioning) information resource */
 export interface OfferResource extends Resource {
     offerVersion: "V2";
@@ -199,6 +297,12 @@ export interface OfferResource extends Resource {
     resource: string;
 }
 
+/** Partition key range resource, i.e. a physical partition of a collection */
+export interface PartitionKeyRangeResource extends Resource {
+    minInclusive: string;
+    maxExclusive: string;
+}
+
 /** Consistency level constants */
 export type ConsistencyLevel = "Strong" | "BoundedStaleness" | "Session" | "Eventual" | "ConsistentPrefix";
 
@@ -212,7 +316,7 @@ export type SqlQuery = string | {
 
 /** Authentication options used by the DocumentClient constructor */
 export interface AuthenticationOptions {
-    masterKey: string;
+    masterKey?: string;
     resourceTokens?: {
         [resourceId: string]: string
     };
@@ -235,23 +339,32 @@ export interface ConnectionPolicy {
     ProxyUrl?: string;
 }
 
-/** DocumentClient indexing policy interface */
+/** DocumentClient indexing policy interface (property names as returned by the service; note that the service returns the indexing mode in lower case) */
 export interface IndexingPolicy {
     automatic?: boolean;
-    indexingMode?: "Consistent" | "Lazy";
-    includedPaths: {
-        Path: string;
-        Indexes: {
-            Kind: "Hash" | "Range" | "Spatial";
-            DataType: string;
-            Precision: number;
-        }[];
-    }[];
-    excludedPaths: {
-        Path: string;
+    indexingMode?: "Consistent" | "Lazy" | "None" | "consistent" | "lazy" | "none";
+    includedPaths?: IncludedPath[];
+    excludedPaths?: {
+        path: string;
     }[];
 }
 
+/** Included path in an indexing policy */
+export interface IncludedPath {
+    /** Path pattern, e.g. `/*` or `/address/zipCode/?` */
+    path: string;
+    /** Indexes for this path */
+    indexes?: IndexSpec[];
+}
+
+/** Index specification for an included path in an indexing policy */
+export interface IndexSpec {
+    kind: "Hash" | "Range" | "Spatial";
+    dataType: "String" | "Number" | "Point" | "Polygon" | "LineString";
+    /** Index precision (bytes), or -1 for maximum precision; not used for spatial indexes */
+    precision?: number;
+}
+
 /** DocumentClient partition key definition interface */
 export interface PartitionKeyDefinition {
     paths: string[];
@@ -260,8 +373,10 @@ export interface PartitionKeyDefinition {
 
 /** DocumentClient request options interface */
 export interface RequestOptions {
-    preTriggerInclude?: string;
-    postTriggerInclude?: string;
+    /** ID(s) of pre-triggers to run before the operation */
+    preTriggerInclude?: string | string[];
+    /** ID(s) of post-triggers to run after the operation */
+    postTriggerInclude?: string | string[];
     accessCondition?: {
         type: "IfMatch" | "IfNoneMatch", condition: string;
     };
@@ -276,6 +391,8 @@ export interface RequestOptions {
     partitionKey?: {};
     disableAutomaticIdGeneration?: boolean;
     enableScriptLogging?: boolean;
+    /** Request quota information (and index transformation progress) when reading a collection */
+    populateQuotaInfo?: boolean;
 }
 
 /** Account information */
@@ -304,12 +421,21 @@ export interface FeedOptions {
     partitionKey?: {};
     enableScanInQuery?: boolean;
     enableCrossPartitionQuery?: boolean;
+    /** Set to `Incremental feed` to read the change feed (using `readDocuments`) */
+    a_im?: "Incremental feed";
+    /** Access condition, i.e. `IfNoneMatch` with the etag returned by a previous change feed read to read changes after that point only, or `*` to read changes from now on */
+    accessCondition?: {
+        type: "IfMatch" | "IfNoneMatch", condition: string;
+    };
+    /** Additional request headers, e.g. `x-ms-documentdb-partitionkeyrangeid` for change feed reads */
+    initialHeaders?: { [name: string]: string };
 }
 
 /** DocumentClient query iterator for iterating over a (future) result set */
 export interface QueryIterator<T> {
     current(callback: (error: ClientError, element: T) => void): void;
-    executeNext(callback: (error: ClientError, list: T[]) => void): void;
+    executeNext(callback: (error: ClientError, list: T[],
+        responseHeaders?: { [name: string]: string }) => void): void;
     forEach(callback: (error: ClientError, element: T | undefined) => void): void;
     nextItem(callback: (error: ClientError, element: T) => void): void;
     reset(): void;
@@ -0,0 +1,302 @@
+#!/usr/bin/env node
+import { Client } from "./Client";
+import { Database } from "./Database";
+import { Collection, StoreMode } from "./Collection";
+
+/** Parsed command line: positional arguments and flags */
+interface CommandLine {
+    args: string[];
+    flags: { [name: string]: string | true };
+}
+
+/** Definition of a single command */
+interface Command {
+    usage: string;
+    description: string;
+    run(line: CommandLine, context: CommandContext): Promise<any>;
+}
+
+/** Flags that do not take a value */
+const BOOLEAN_FLAGS = ["help", "strip", "continue-on-error", "verbose"];
+
+/** Store modes by name, for the `import` command */
+const STORE_MODES: { [name: string]: StoreMode } = {
+    upsert: StoreMode.Upsert,
+    create: StoreMode.CreateOnly,
+    update: StoreMode.UpdateOnly
+};
+
+/** Context for running commands: output stream and (lazily created) client */
+class CommandContext {
+    constructor(public line: CommandLine, public out: NodeJS.WritableStream,
+        private _client?: Client) {
+        // nothing here
+    }
+
+    /** Returns the value of given flag, or of given environment variable, or throws an error if required but not specified */
+    public option(name: string, env?: string, required = true) {
+        var value = this.line.flags[name];
+        if (typeof value !== "string") value = env && process.env[env] || "";
+        if (!value && required) {
+            throw new Error(`Missing option --${name}` +
+                (env ? ` (or environment variable ${env})` : ""));
+        }
+        return value;
+    }
+
+    /** Returns the client for the configured endpoint */
+    public get client() {
+        if (!this._client) {
+            this._client = new Client(this.option("url", "DOCUMENTDB_URL"),
+                this.option("key", "DOCUMENTDB_KEY"));
+        }
+        // log to standard error, since output may be written to standard output
+        if (this.line.flags["verbose"] && !this._client.logger) {
+            this._client.logger = {
+                log: message => process.stderr.write(message + "\n")
+            };
+        }
+        return this._client;
+    }
+
+    /** Returns the database given by the `--db` option */
+    public get database() {
+        return new Database(this.option("db", "DOCUMENTDB_DATABASE"), this.client);
+    }
+
+    /** Returns the collection given by the `--coll` option */
+    public get collection() {
+        return new Collection(this.option("coll", "DOCUMENTDB_COLLECTION"),
+            this.database);
+    }
+
+    /** Write given results as JSON or as a table, depending on the `--format` option */
+    public print(results: any) {
+        var format = this.option("format", "DOCUMENTDB_FORMAT", false) || "json";
+        if (format === "table" && Array.isArray(results)) {
+            this.out.write(formatTable(results));
+        }
+        else if (format === "json" || format === "table") {
+            this.out.write(JSON.stringify(results, undefined, 2) + "\n");
+        }
+        else throw new Error("Unknown format: " + format);
+    }
+}
+
+/** All commands, by name */
+const COMMANDS: { [name: string]: Command } = {
+    "databases": {
+        usage: "databases",
+        description: "List all databases",
+        run: async (line, context) => {
+            var dbs = await context.client.listDatabasesAsync(true);
+            context.print(dbs.map(db => ({ id: db.id })));
+        }
+    },
+    "create-database": {
+        usage: "create-database <id>",
+        description: "Create a database, if it does not exist yet",
+        run: async (line, context) => {
+            await new Database(requireArg(line, 0, "id"), context.client)
+                .openOrCreateAsync();
+        }
+    },
+    "delete-database": {
+        usage: "delete-database <id>",
+        description: "Delete a database and all of its collections",
+        run: async (line, context) => {
+            await new Database(requireArg(line, 0, "id"), context.client)
+                .deleteAsync();
+        }
+    },
+    "collections": {
+        usage: "collections --db <id>",
+        description: "List all collections in a database",
+        run: async (line, context) => {
+            var collections = await context.database.listCollectionsAsync();
+            context.print(collections.map(c => ({
+                id: c.id,
+                partitionKey: c.partitionKey && c.partitionKey.paths &&
+                    c.partitionKey.paths.join(",")
+            })));
+        }
+    },
+    "create-collection": {
+        usage: "create-collection <id> --db <id> [--partition-key <path>] [--throughput <RU/s>]",
+        description: "Create a collection, if it does not exist yet",
+        run: async (line, context) => {
+            var collection = new Collection(requireArg(line, 0, "id"), context.database);
+            var path = context.option("partition-key", undefined, false);
+            if (path) collection.partitionKey = { paths: [path], kind: "Hash" };
+            var throughput = context.option("throughput", undefined, false);
+            await collection.openOrCreateAsync(throughput ?
+                parseNumber(throughput) : undefined);
+        }
+    },
+    "delete-collection": {
+        usage: "delete-collection <id> --db <id>",
+        description: "Delete a collection and all of its documents",
+        run: async (line, context) => {
+            await new Collection(requireArg(line, 0, "id"), context.database)
+                .deleteAsync();
+        }
+    },
+    "query": {
+        usage: "query <sql> --db <id> --coll <id> [--format json|table]",
+        description: "Run a SQL query and print all results",
+        run: async (line, context) => {
+            var results = await context.collection
+                .queryDocuments<any>(requireArg(line, 0, "sql")).toArray();
+            context.print(results);
+        }
+    },
+    "throughput": {
+        usage: "throughput [<RU/s>] --db <id> --coll <id>",
+        description: "Show the provisioned throughput of a collection, or set it to given value",
+        run: async (line, context) => {
+            var collection = context.collection;
+            if (line.args[0] !== undefined)
+                await collection.setOfferInfoAsync(parseNumber(line.args[0]));
+            var offer = await collection.getOfferInfoAsync();
+            context.print({ throughput: offer.content.offerThroughput });
+        }
+    },
+    "account": {
+        usage: "account",
+        description: "Show account information",
+        run: async (line, context) => {
+            await context.client.openAsync();
+            context.print(await context.client.getAccountInfoAsync());
+        }
+    },
+    "export": {
+        usage: "export [<file>] --db <id> --coll <id> [--query <sql>] [--strip]",
+        description: "Export documents to a file (or standard output) as newline-delimited JSON, optionally stripping system properties",
+        run: async (line, context) => {
+            await context.collection.exportDocumentsAsync(line.args[0] || context.out, {
+                query: context.option("query", undefined, false) || undefined,
+                stripSystemProperties: !!line.flags["strip"]
+            });
+        }
+    },
+    "import": {
+        usage: "import [<file>] --db <id> --coll <id> [--mode upsert|create|update] [--skip <lines>] [--continue-on-error]",
+        description: "Import documents from a file (or standard input) with newline-delimited JSON; use --skip to resume an import from the last reported position",
+        run: async (line, context) => {
+            var modeName = context.option("mode", undefined, false) || "upsert";
+            var mode = STORE_MODES[modeName];
+            if (mode === undefined) throw new Error("Unknown mode: " + modeName);
+            var skip = context.option("skip", undefined, false);
+            var progress = await context.collection.importDocumentsAsync(
+                line.args[0] || process.stdin, {
+                    mode,
+                    skip: skip ? parseNumber(skip) : undefined,
+                    continueOnError: !!line.flags["continue-on-error"],
+                    onError: (err, lineNumber) => process.stderr.write(
+                        `Line ${lineNumber}: ${err && err.message || err}\n`),
+                    onProgress: p => process.stderr.write(
+                        `Position ${p.position}: ${p.stored} stored, ${p.failed} failed\n`)
+                });
+            context.print(progress);
+        }
+    }
+};
+
+/** Run the command given by the command line arguments (i.e. excluding the node executable and script), writing results to given stream; uses given client instead of creating a new client from the `--url` and `--key` options, if specified */
+export async function runAsync(argv: string[], out: NodeJS.WritableStream = process.stdout,
+    client?: Client) {
+    var line = parseCommandLine(argv);
+    var name = line.args.shift();
+    var command = name && COMMANDS[name];
+    if (!command || line.flags["help"]) {
+        if (name && !command && name !== "help")
+            throw new Error("Unknown command: " + name);
+        out.write(getUsage());
+        return;
+    }
+    await command.run(line, new CommandContext(line, out, client));
+}
+
+/** Returns usage information for all commands */
+function getUsage() {
+    var result = "Usage: documentdb-ts <command> [options]\n\n" +
+        "Connection options: --url <endpoint> --key <master key> " +
+        "(or DOCUMENTDB_URL, DOCUMENTDB_KEY); --db and --coll may also be " +
+        "set using DOCUMENTDB_DATABASE and DOCUMENTDB_COLLECTION; " +
+        "use --verbose to log all requests to standard error\n\nCommands:\n";
+    for (var name in COMMANDS) {
+        result += `  ${COMMANDS[name].usage}\n      ${COMMANDS[name].description}\n`;
+    }
+    return result;
+}
+
+/** Parse given arguments into positional arguments and flags (`--name value`, `--name=value`, or `--name` for boolean flags) */
+function parseCommandLine(argv: string[]): CommandLine {
+    var result: CommandLine = { args: [], flags: {} };
+    for (var i = 0; i < argv.length; i++) {
+        var arg = argv[i];
+        var match = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+        if (!match) {
+            result.args.push(arg);
+        }
+        else if (match[2] !== undefined) {
+            result.flags[match[1]] = match[2];
+        }
+        else if (BOOLEAN_FLAGS.indexOf(match[1]) >= 0) {
+            result.flags[match[1]] = true;
+        }
+        else {
+            if (i + 1 >= argv.length) throw new Error("Missing value for --" + match[1]);
+            result.flags[match[1]] = argv[++i];
+        }
+    }
+    return result;
+}
+
+/** Returns the positional argument at given index, or throws an error */
+function requireArg(line: CommandLine, index: number, name: string) {
+    var value = line.args[index];
+    if (value === undefined) throw new Error("Missing argument: " + name);
+    return value;
+}
+
+/** Returns given string as a number, or throws an error */
+function parseNumber(value: string) {
+    var result = Number(value);
+    if (!isFinite(result) || value === "") throw new Error("Invalid number: " + value);
+    return result;
+}
+
+/** Returns given list of objects as a text table, with a column for every property */
+function formatTable(rows: any[]) {
+    var columns: string[] = [];
+    rows.forEach(row => {
+        if (row instanceof Object) {
+            Object.keys(row).forEach(key => {
+                if (columns.indexOf(key) < 0) columns.push(key);
+            });
+        }
+    });
+    var noColumns = !columns.length;
+    if (noColumns) columns = ["value"];
+    var cells = rows.map(row => columns.map(column => {
+        var value = noColumns ? row : row && row[column];
+        var text = value === undefined ? "" :
+            typeof value === "string" ? value : JSON.stringify(value);
+        return text.length > 40 ? text.slice(0, 39) + "…" : text;
+    }));
+    var widths = columns.map((column, i) =>
+        Math.max(column.length, ...cells.map(r => r[i].length)));
+    let format = (values: string[]) => values.map((v, i) =>
+        v + " ".repeat(widths[i] - v.length)).join("  ").replace(/\s+$/, "") + "\n";
+    return format(columns) + format(widths.map(w => "-".repeat(w))) +
+        cells.map(format).join("");
+}
+
+// run the command line if this module is executed directly
+if (require.main === module) {
+    runAsync(process.argv.slice(2)).catch(err => {
+        process.stderr.write((err && err.message || String(err)) + "\n");
+        process.exit(1);
+    });
+}
@@ -1,3 +1,14 @@
 export * from "./Client";
 export * from "./Database";
 export * from "./Collection";
+export * from "./DocumentStream";
+export * from "./ChangeFeed";
+export * from "./InMemoryDocumentClient";
+export * from "./QueryBuilder";
+export * from "./RequestScheduler";
+export * from "./RetryPolicy";
+export * from "./Cancellation";
+export * from "./Errors";
+export * from "./User";
+export * from "./Migration";
+export * from "./Ndjson";